@@ -1,38 +1,109 @@
-import { useState } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { UrlInput } from './components/UrlInput';
 import { ProcessingStatus } from './components/ProcessingStatus';
 import { DatasetPreview } from './components/DatasetPreview';
-import { useDatasetGeneration } from './hooks/useDatasetGeneration';
+import { PipelineEditor } from './components/PipelineEditor';
+import { GoalEditor } from './components/GoalEditor';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { JudgePanelEditor } from './components/JudgePanelEditor';
+import { RedactionEditor } from './components/RedactionEditor';
+import { SafetyEditor } from './components/SafetyEditor';
+import { LanguageSettings } from './components/LanguageSettings';
+import { RagSettings } from './components/RagSettings';
+import { ToolSchemaEditor } from './components/ToolSchemaEditor';
+import { ExportOptionsPanel } from './components/ExportOptionsPanel';
+import { useDatasetGeneration, collectSources } from './hooks/useDatasetGeneration';
 import { Card, CardContent } from './components/ui/Card';
 import { Button } from './components/ui/Button';
-import { Download, Settings, Database } from 'lucide-react';
-import type { FileData, UrlData, FineTuningGoal } from './types';
+import { Alert } from './components/ui/Alert';
+import { Download, Settings, Database, Pause, Play, Square, Plus, Pencil, Copy } from 'lucide-react';
+import { pipelineService, DEFAULT_GENERATION_OPTIONS } from './services/pipelineService';
+import { SEARCH_BACKENDS } from './services/searchService';
+import { goalService } from './services/goalService';
+import { RedactionService } from './services/redactionService';
+import { DEFAULT_EXPORT_OPTIONS } from './services/downloadService';
+import { CONVERSATION_MIN_TURNS } from './constants';
+import type { FileData, UrlData, FineTuningGoalConfig, GenerationOptions, GenerationMode, SearchBackendId, ExportOptions, VariantType } from './types';
 
 export default function App() {
   const [files, setFiles] = useState<FileData[]>([]);
   const [urls, setUrls] = useState<UrlData[]>([]);
-  const [fineTuningGoal, setFineTuningGoal] = useState<FineTuningGoal>('general' as FineTuningGoal);
+  const [goals, setGoals] = useState<FineTuningGoalConfig[]>(() => goalService.list());
+  const [goalId, setGoalId] = useState('knowledge');
+  const [editingGoal, setEditingGoal] = useState<{ goal: FineTuningGoalConfig; isNew: boolean } | null>(null);
+  const fineTuningGoal = goals.find(goal => goal.id === goalId) ?? goals[0];
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [options, setOptions] = useState<GenerationOptions>(DEFAULT_GENERATION_OPTIONS);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const pipelineErrors = pipelineService.validatePipeline(options.pipeline);
+  // Lets the user review what will be replaced before anything is sent
+  const redactionPreview = useMemo(() => {
+    if (!options.redaction.enabled || (files.length === 0 && urls.length === 0)) return null;
+    return RedactionService.redactSources(collectSources(files, urls), options.redaction).report;
+  }, [files, urls, options.redaction]);
+
+  const updateOptions = (changes: Partial<GenerationOptions>) => {
+    setOptions(prev => ({ ...prev, ...changes }));
+  };
 
   const {
     isProcessing,
+    isPaused,
+    isCancelled,
     processedData,
+    sources,
     currentStep,
     progress,
+    stageTimeline,
+    estimatedTimeRemaining,
+    elapsedTime,
     error,
+    resumableRun,
     generateDataset,
+    pauseGeneration,
+    resumeGeneration,
+    cancelGeneration,
+    discardResumableRun,
+    selectDuplicateRepresentative,
     downloadDataset,
     resetGeneration
   } = useDatasetGeneration();
 
+  // Resuming needs the same goal and settings the interrupted run was keyed on
+  useEffect(() => {
+    if (!resumableRun) return;
+    const { goal } = resumableRun;
+    if (goal.isCustom && !goalService.list().some(existing => existing.id === goal.id)) {
+      goalService.save(goal);
+      setGoals(goalService.list());
+    }
+    setGoalId(goal.id);
+    setOptions({ ...DEFAULT_GENERATION_OPTIONS, ...resumableRun.options });
+  }, [resumableRun]);
+
   const handleGenerate = () => {
-    generateDataset(files, urls, fineTuningGoal as FineTuningGoal);
+    generateDataset(files, urls, fineTuningGoal, options);
+  };
+
+  const handleSaveGoal = (goal: FineTuningGoalConfig) => {
+    goalService.save(goal);
+    setGoals(goalService.list());
+    setGoalId(goal.id);
+    setEditingGoal(null);
+  };
+
+  const handleDeleteGoal = (id: string) => {
+    goalService.remove(id);
+    setGoals(goalService.list());
+    setGoalId(prev => (prev === id ? 'knowledge' : prev));
+    setEditingGoal(null);
   };
 
   const handleReset = () => {
     setFiles([]);
     setUrls([]);
+    setExportOptions(DEFAULT_EXPORT_OPTIONS);
     resetGeneration();
   };
 
@@ -81,34 +152,340 @@ export default function App() {
                       <label className="block text-sm font-medium text-gray-700 mb-2">
                         Fine-tuning Goal
                       </label>
+                      <div className="flex items-center space-x-2">
+                        <select
+                          value={fineTuningGoal.id}
+                          onChange={(e) => setGoalId(e.target.value)}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        >
+                          {goals.map(goal => (
+                            <option key={goal.id} value={goal.id}>{goal.icon} {goal.name}</option>
+                          ))}
+                        </select>
+                        {fineTuningGoal.isCustom ? (
+                          <Button variant="outline" size="sm" onClick={() => setEditingGoal({ goal: fineTuningGoal, isNew: false })}>
+                            <Pencil className="w-4 h-4 mr-1" />
+                            Edit
+                          </Button>
+                        ) : (
+                          <Button variant="outline" size="sm" onClick={() => setEditingGoal({ goal: goalService.createDraft(fineTuningGoal), isNew: true })}>
+                            <Copy className="w-4 h-4 mr-1" />
+                            Customize
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => setEditingGoal({ goal: goalService.createDraft(), isNew: true })}>
+                          <Plus className="w-4 h-4 mr-1" />
+                          New
+                        </Button>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {fineTuningGoal.description} · Questions: {goalService.describeQuestionTypeMix(fineTuningGoal)}
+                      </p>
+                    </div>
+
+                    {editingGoal && (
+                      <GoalEditor
+                        key={editingGoal.goal.id}
+                        goal={editingGoal.goal}
+                        isNew={editingGoal.isNew}
+                        onSave={handleSaveGoal}
+                        onDelete={handleDeleteGoal}
+                        onCancel={() => setEditingGoal(null)}
+                      />
+                    )}
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Generation Mode
+                      </label>
                       <select
-                        value={fineTuningGoal}
-                        onChange={(e) => setFineTuningGoal(e.target.value as FineTuningGoal)}
+                        value={options.mode}
+                        onChange={(e) => updateOptions({ mode: e.target.value as GenerationMode })}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
                       >
-                        <option value="general">General Knowledge</option>
-                        <option value="specific">Domain-Specific</option>
-                        <option value="conversational">Conversational</option>
-                        <option value="analytical">Analytical</option>
+                        <option value="qa">Single-turn Q&A pairs</option>
+                        <option value="conversation">Multi-turn conversations</option>
+                        <option value="tools">Tool-calling exchanges</option>
                       </select>
                     </div>
+
+                    {options.mode === 'tools' && (
+                      <ToolSchemaEditor
+                        tools={options.tools}
+                        onToolsChange={(tools) => updateOptions({ tools })}
+                      />
+                    )}
+
+                    {options.mode === 'conversation' && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Maximum User Turns per Conversation: {options.conversationTurns}
+                        </label>
+                        <input
+                          type="range"
+                          min={CONVERSATION_MIN_TURNS}
+                          max={8}
+                          step={1}
+                          value={options.conversationTurns}
+                          onChange={(e) => updateOptions({ conversationTurns: Number(e.target.value) })}
+                          className="w-full"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          Each conversation has {CONVERSATION_MIN_TURNS} to {options.conversationTurns} user turns with follow-ups, clarifications and topic shifts.
+                        </p>
+                      </div>
+                    )}
+
+                    <div>
+                      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={options.reasoning}
+                          onChange={(e) => updateOptions({ reasoning: e.target.checked })}
+                        />
+                        <span>Chain-of-thought reasoning</span>
+                      </label>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Writes a step-by-step rationale for every answer, stored apart from it. Rationales that do not lead to the answer are rewritten once, then dropped.
+                      </p>
+                    </div>
+
+                    <RagSettings
+                      config={options.rag}
+                      onConfigChange={(rag) => updateOptions({ rag })}
+                    />
+
+                    <LanguageSettings
+                      config={options.languages}
+                      onConfigChange={(languages) => updateOptions({ languages })}
+                    />
+
+                    <RedactionEditor
+                      config={options.redaction}
+                      onConfigChange={(redaction) => updateOptions({ redaction })}
+                      preview={redactionPreview}
+                    />
+
+                    {showAdvanced && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Incorrect Answers for Preference Training: {Math.round(options.incorrectAnswerRatio * 100)}%
+                        </label>
+                        <input
+                          type="range"
+                          min={0}
+                          max={0.5}
+                          step={0.01}
+                          value={options.incorrectAnswerRatio}
+                          onChange={(e) => updateOptions({ incorrectAnswerRatio: Number(e.target.value) })}
+                          className="w-full"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          Share of correct pairs that get a linked, plausible but wrong answer for DPO exports.
+                        </p>
+                      </div>
+                    )}
+
+                    {showAdvanced && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Unanswerable Questions: {Math.round(options.unanswerableRatio * 100)}%
+                        </label>
+                        <input
+                          type="range"
+                          min={0}
+                          max={0.5}
+                          step={0.01}
+                          value={options.unanswerableRatio}
+                          onChange={(e) => updateOptions({ unanswerableRatio: Number(e.target.value) })}
+                          className="w-full"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          Share of the dataset made of out-of-scope or unanswerable questions answered with a refusal in the goal's style.
+                        </p>
+                      </div>
+                    )}
+
+                    {showAdvanced && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Questions with Variants: {Math.round(options.augmentation.selectionRatio * 100)}%
+                        </label>
+                        <input
+                          type="range"
+                          min={0}
+                          max={1}
+                          step={0.05}
+                          value={options.augmentation.selectionRatio}
+                          onChange={(e) => updateOptions({ augmentation: { ...options.augmentation, selectionRatio: Number(e.target.value) } })}
+                          className="w-full"
+                        />
+                        <div className="flex flex-wrap items-center gap-4 mt-2 text-sm text-gray-700">
+                          <label className="flex items-center space-x-2">
+                            <span>Paraphrases</span>
+                            <input
+                              type="number"
+                              min={0}
+                              max={5}
+                              value={options.augmentation.paraphrasesPerQuestion}
+                              onChange={(e) => updateOptions({ augmentation: { ...options.augmentation, paraphrasesPerQuestion: Math.max(0, Number(e.target.value)) } })}
+                              className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+                            />
+                          </label>
+                          {(['typos', 'casual', 'shortened'] as Array<Exclude<VariantType, 'paraphrase'>>).map(style => (
+                            <label key={style} className="flex items-center space-x-1">
+                              <input
+                                type="checkbox"
+                                checked={options.augmentation.noisyVariants.includes(style)}
+                                onChange={(e) => updateOptions({
+                                  augmentation: {
+                                    ...options.augmentation,
+                                    noisyVariants: e.target.checked
+                                      ? [...options.augmentation.noisyVariants, style]
+                                      : options.augmentation.noisyVariants.filter(s => s !== style),
+                                  },
+                                })}
+                              />
+                              <span>{style}</span>
+                            </label>
+                          ))}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Selected questions get reworded and noisy variants that share the original answer and stay linked to it.
+                        </p>
+                      </div>
+                    )}
+
+                    {showAdvanced && (
+                      <JudgePanelEditor
+                        judges={options.judges}
+                        consensusMethod={options.consensusMethod}
+                        onJudgesChange={(judges) => updateOptions({ judges })}
+                        onConsensusMethodChange={(consensusMethod) => updateOptions({ consensusMethod })}
+                      />
+                    )}
+
+                    {showAdvanced && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Faithfulness Threshold: {Math.round(options.faithfulnessThreshold * 100)}%
+                        </label>
+                        <input
+                          type="range"
+                          min={0}
+                          max={1}
+                          step={0.05}
+                          value={options.faithfulnessThreshold}
+                          onChange={(e) => updateOptions({ faithfulnessThreshold: Number(e.target.value) })}
+                          className="w-full"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          Pairs whose answers are supported by their source passage less than this are rejected.
+                        </p>
+                      </div>
+                    )}
+
+                    {showAdvanced && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Duplicate Similarity Threshold: {Math.round(options.dedupThreshold * 100)}%
+                        </label>
+                        <input
+                          type="range"
+                          min={0.3}
+                          max={1}
+                          step={0.05}
+                          value={options.dedupThreshold}
+                          onChange={(e) => updateOptions({ dedupThreshold: Number(e.target.value) })}
+                          className="w-full"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          Questions at least this similar are merged; lower values also catch looser rewordings.
+                        </p>
+                      </div>
+                    )}
+
+                    {showAdvanced && (
+                      <SafetyEditor
+                        config={options.safety}
+                        onConfigChange={(safety) => updateOptions({ safety })}
+                      />
+                    )}
+
+                    {showAdvanced && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Research Search Backend
+                        </label>
+                        <select
+                          value={options.researchBackend}
+                          onChange={(e) => updateOptions({ researchBackend: e.target.value as SearchBackendId })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        >
+                          {SEARCH_BACKENDS.map(backend => (
+                            <option key={backend.id} value={backend.id}>{backend.name}</option>
+                          ))}
+                        </select>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {SEARCH_BACKENDS.find(backend => backend.id === options.researchBackend)?.description}
+                        </p>
+                      </div>
+                    )}
+
+                    {showAdvanced && (
+                      <PipelineEditor
+                        pipeline={options.pipeline}
+                        onPipelineChange={(pipeline) => updateOptions({ pipeline })}
+                      />
+                    )}
+
+                    {showAdvanced && <PromptTemplateEditor />}
                   </div>
                 </div>
 
+                {processedData && (
+                  <div className="mt-6">
+                    <ExportOptionsPanel
+                      pairs={processedData.qaPairs}
+                      options={exportOptions}
+                      onOptionsChange={setExportOptions}
+                    />
+                  </div>
+                )}
+
                 {/* Action Buttons */}
                 <div className="mt-6 flex flex-wrap gap-3">
                   <Button
                     onClick={handleGenerate}
-                    disabled={isProcessing || (files.length === 0 && urls.length === 0)}
+                    disabled={isProcessing || (files.length === 0 && urls.length === 0) || pipelineErrors.length > 0}
                     className="flex-1 min-w-[200px]"
                   >
                     <Database className="w-4 h-4 mr-2" />
                     {isProcessing ? 'Generating...' : 'Generate Dataset'}
                   </Button>
 
+                  {isProcessing && (
+                    <>
+                      <Button
+                        onClick={isPaused ? resumeGeneration : pauseGeneration}
+                        variant="outline"
+                      >
+                        {isPaused ? <Play className="w-4 h-4 mr-2" /> : <Pause className="w-4 h-4 mr-2" />}
+                        {isPaused ? 'Resume' : 'Pause'}
+                      </Button>
+                      <Button
+                        onClick={cancelGeneration}
+                        variant="outline"
+                      >
+                        <Square className="w-4 h-4 mr-2" />
+                        Cancel
+                      </Button>
+                    </>
+                  )}
+
                   {processedData && (
                     <Button
-                      onClick={downloadDataset}
+                      onClick={() => downloadDataset(exportOptions)}
                       variant="outline"
                       className="flex-1 min-w-[200px]"
                     >
@@ -128,18 +505,45 @@ export default function App() {
               </CardContent>
             </Card>
 
+            {/* Interrupted Runs */}
+            {resumableRun && !isProcessing && (
+              <Alert
+                type="info"
+                title="Interrupted run found"
+                message={`A run started ${new Date(resumableRun.createdAt).toLocaleString()} from ${resumableRun.sourceLabels.join(', ')} has ${Object.keys(resumableRun.stages).length} finished stages saved. Its goal and settings have been restored; add the same sources and generate again to resume without repeating finished model calls. Changing the settings or prompt templates first starts a new run.`}
+                onClose={discardResumableRun}
+              />
+            )}
+
+            {isCancelled && !isProcessing && (
+              <Alert
+                type="warning"
+                title="Generation cancelled"
+                message="Finished stages and batches were saved. Generate again with the same sources and settings to resume."
+              />
+            )}
+
             {/* Processing Status */}
             {isProcessing && (
               <ProcessingStatus
-                currentStep={currentStep}
+                currentStep={isPaused ? `Paused - ${currentStep}` : currentStep}
                 progress={progress}
+                isProcessing={isProcessing}
+                isPaused={isPaused}
                 error={error || undefined}
+                estimatedTimeRemaining={estimatedTimeRemaining}
+                totalEstimatedTime={estimatedTimeRemaining !== undefined ? elapsedTime + estimatedTimeRemaining : undefined}
+                stageTimeline={stageTimeline}
               />
             )}
 
             {/* Dataset Preview */}
             {processedData && !isProcessing && (
-              <DatasetPreview data={processedData} />
+              <DatasetPreview
+                data={processedData}
+                sources={sources}
+                onSelectDuplicateRepresentative={selectDuplicateRepresentative}
+              />
             )}
           </div>
         </div>
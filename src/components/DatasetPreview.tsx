@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Card, CardContent } from './ui/Card';
 import { Button } from './ui/Button';
 import { Badge } from './ui/Badge';
@@ -7,25 +7,44 @@ import {
   ChevronUp, 
   Eye, 
   EyeOff, 
-  BarChart3
+  BarChart3,
+  ShieldAlert
 } from 'lucide-react';
-import type { ProcessedData, QAPair } from '../types';
+import { SourceViewer } from './SourceViewer';
+import { RedactionReportSummary } from './RedactionReportSummary';
+import { ConversationService } from '../services/conversationService';
+import { LanguageService } from '../services/languageService';
+import { ToolService } from '../services/toolService';
+import type { ProcessedData, QAPair, KnowledgeGap, SourceContent } from '../types';
 
 interface DatasetPreviewProps {
   data: ProcessedData;
+  sources?: SourceContent[];
+  onSelectDuplicateRepresentative?: (clusterId: string, pairId: string) => void;
 }
 
-export function DatasetPreview({ data }: DatasetPreviewProps) {
+export function DatasetPreview({ data, sources = [], onSelectDuplicateRepresentative }: DatasetPreviewProps) {
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
     overview: true,
     qaPairs: false,
     validation: false,
-    synthetic: false
+    synthetic: false,
+    duplicates: false,
+    redaction: false
   });
   const [showAnswers, setShowAnswers] = useState(false);
+  const [viewingSourcePairId, setViewingSourcePairId] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
+  const [showFlaggedOnly, setShowFlaggedOnly] = useState(false);
+  const [highlightedPairId, setHighlightedPairId] = useState<string | null>(null);
   const itemsPerPage = 10;
 
+  useEffect(() => {
+    if (highlightedPairId) {
+      document.getElementById(`pair-${highlightedPairId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [highlightedPairId, currentPage]);
+
   const toggleSection = (section: string) => {
     setExpandedSections(prev => ({
       ...prev,
@@ -33,17 +52,61 @@ export function DatasetPreview({ data }: DatasetPreviewProps) {
     }));
   };
 
-  const totalPairs = data.qaPairs.length + (data.syntheticPairCount || 0);
+  const totalPairs = data.qaPairs.length;
   const validPairs = data.validatedPairCount || 0;
-  const avgConfidence = 0; // This needs to be recalculated
+  const scoredPairs = data.qaPairs.filter(pair => pair.validationConfidence !== undefined);
+  const avgConfidence = scoredPairs.length > 0
+    ? scoredPairs.reduce((sum, pair) => sum + pair.validationConfidence!, 0) / scoredPairs.length
+    : 0;
+  const rejectedPairs = data.qaPairs.filter(pair => pair.validationStatus === 'rejected');
+  const failedValidations = data.failedValidationCount || 0;
+  const reviewPairs = data.qaPairs.filter(pair => pair.needsReview);
+
+  // Per-judge averages, to show which models score differently from the rest
+  const judgeSummaries = Object.values(
+    data.qaPairs
+      .flatMap(pair => pair.judgeScores || [])
+      .reduce<Record<string, { model: string; count: number; passed: number; totalConfidence: number }>>((acc, score) => {
+        const summary = acc[score.model] ?? { model: score.model, count: 0, passed: 0, totalConfidence: 0 };
+        summary.count++;
+        if (score.isValid) summary.passed++;
+        summary.totalConfidence += score.confidence;
+        acc[score.model] = summary;
+        return acc;
+      }, {})
+  );
 
   // Pagination for QA pairs
-  const allPairs = [...data.qaPairs] as QAPair[];
+  // Dropped pairs are listed with the flagged ones so reviewers can audit what screening removed
+  const droppedPairIds = new Set((data.unsafePairs || []).map(pair => pair.id));
+  const flaggedPairs = [...data.qaPairs.filter(pair => pair.safetyFlags?.length), ...(data.unsafePairs || [])];
+  const languageCounts = data.qaPairs.reduce<Record<string, number>>((counts, pair) => {
+    if (pair.language) counts[pair.language] = (counts[pair.language] || 0) + 1;
+    return counts;
+  }, {});
+  const allPairs = (showFlaggedOnly ? flaggedPairs : [...data.qaPairs]) as QAPair[];
   const startIndex = (currentPage - 1) * itemsPerPage;
   const endIndex = startIndex + itemsPerPage;
   const currentPairs = allPairs.slice(startIndex, endIndex);
   const totalPages = Math.ceil(allPairs.length / itemsPerPage);
 
+  // Jumps to a pair in the full list, e.g. from an incorrect answer to its correct counterpart
+  const showPair = (pairId: string) => {
+    const pairIndex = data.qaPairs.findIndex(pair => pair.id === pairId);
+    if (pairIndex < 0) return;
+    setShowFlaggedOnly(false);
+    setCurrentPage(Math.floor(pairIndex / itemsPerPage) + 1);
+    setHighlightedPairId(pairId);
+  };
+
+  const getPriorityColor = (priority: KnowledgeGap['priority']) => {
+    switch (priority) {
+      case 'high': return 'bg-red-100 text-red-800';
+      case 'medium': return 'bg-yellow-100 text-yellow-800';
+      default: return 'bg-green-100 text-green-800';
+    }
+  };
+
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty?.toLowerCase()) {
       case 'easy': return 'bg-green-100 text-green-800';
@@ -92,6 +155,48 @@ export function DatasetPreview({ data }: DatasetPreviewProps) {
               </div>
             </div>
           )}
+
+          {expandedSections.overview && data.reasoningPairCount ? (
+            <div className="text-sm text-gray-600 mt-4">
+              Pairs with verified reasoning: {data.reasoningPairCount} of {data.correctAnswerCount}
+            </div>
+          ) : null}
+
+          {expandedSections.overview && data.unanswerablePairCount ? (
+            <div className="text-sm text-gray-600 mt-4">
+              Unanswerable questions with refusals: {data.unanswerablePairCount} ({Math.round(data.unanswerablePairCount / Math.max(1, data.correctAnswerCount) * 100)}% of correct pairs)
+            </div>
+          ) : null}
+
+          {expandedSections.overview && Object.keys(languageCounts).length > 0 && (
+            <div className="text-sm text-gray-600 mt-4">
+              Languages:{' '}
+              {Object.entries(languageCounts)
+                .sort((a, b) => b[1] - a[1])
+                .map(([code, count]) => `${LanguageService.name(code)} (${count})`)
+                .join(', ')}
+              {sources.some(source => source.language) && (
+                <span className="text-gray-400">
+                  {' '}· sources: {sources.map(source => `${source.name || source.url || source.id}: ${LanguageService.name(source.language || '')}`).join(', ')}
+                </span>
+              )}
+            </div>
+          )}
+
+          {expandedSections.overview && (data.flaggedPairCount || data.droppedUnsafePairCount) ? (
+            <div className="text-sm text-red-700 mt-4">
+              Safety screening: {data.droppedUnsafePairCount || 0} pairs dropped, {data.flaggedPairCount || 0} kept with flags
+            </div>
+          ) : null}
+
+          {expandedSections.overview && data.promptTemplateVersions && (
+            <div className="text-xs text-gray-500 mt-4">
+              Prompt templates:{' '}
+              {data.promptTemplateVersions
+                .map(template => `${template.name} v${template.version}${template.isCustom ? ' (custom)' : ''}`)
+                .join(', ')}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -103,6 +208,19 @@ export function DatasetPreview({ data }: DatasetPreviewProps) {
               Question & Answer Pairs ({allPairs.length})
             </h2>
             <div className="flex items-center space-x-2">
+              {flaggedPairs.length > 0 && (
+                <Button
+                  variant={showFlaggedOnly ? 'outline' : 'ghost'}
+                  size="sm"
+                  onClick={() => {
+                    setShowFlaggedOnly(!showFlaggedOnly);
+                    setCurrentPage(1);
+                  }}
+                >
+                  <ShieldAlert className="w-4 h-4 mr-1" />
+                  {showFlaggedOnly ? 'Show All' : `Flagged Only (${flaggedPairs.length})`}
+                </Button>
+              )}
               <Button
                 variant="ghost"
                 size="sm"
@@ -124,34 +242,252 @@ export function DatasetPreview({ data }: DatasetPreviewProps) {
           {expandedSections.qaPairs && (
             <div className="space-y-4">
               {currentPairs.map((pair, index) => {
+                const attributedSource = pair.attribution && sources.find(source => source.id === pair.attribution!.sourceId);
                 return (
-                  <div key={index} className="border border-gray-200 rounded-lg p-4">
+                  <div
+                    key={index}
+                    id={`pair-${pair.id}`}
+                    className={`border rounded-lg p-4 ${highlightedPairId === pair.id ? 'border-indigo-400 ring-2 ring-indigo-200' : 'border-gray-200'}`}
+                  >
                     <div className="flex items-start justify-between mb-2">
                       <div className="flex items-center space-x-2">
-                        <Badge variant="outline" className={getDifficultyColor('medium')}>
-                          Medium
-                        </Badge>
-                        <Badge variant="outline">
-                          General
+                        {pair.difficulty && (
+                          <Badge variant="outline" className={getDifficultyColor(pair.difficulty)}>
+                            {pair.difficulty}
+                          </Badge>
+                        )}
+                        {pair.theme && (
+                          <Badge variant="outline">
+                            {pair.theme}
+                          </Badge>
+                        )}
+                        {pair.questionType && (
+                          <Badge variant="outline">
+                            {pair.questionType}
+                          </Badge>
+                        )}
+                        {pair.variantType && (
+                          <Badge variant="outline" className="bg-purple-100 text-purple-800">
+                            {pair.variantType} variant
+                          </Badge>
+                        )}
+                        {pair.language && (
+                          <Badge variant="outline">
+                            {pair.language}{pair.translationOf ? ' (translated)' : ''}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        {!pair.isCorrect && (
+                          <Badge variant="outline" className="bg-red-100 text-red-800">
+                            Incorrect
+                          </Badge>
+                        )}
+                        {droppedPairIds.has(pair.id) && (
+                          <Badge variant="destructive">
+                            Dropped
+                          </Badge>
+                        )}
+                        {pair.edits && pair.edits.length > 0 && (
+                          <Badge variant="outline" className="bg-blue-100 text-blue-800">
+                            Repaired
+                          </Badge>
+                        )}
+                        {pair.safetyFlags?.map(flag => (
+                          <Badge key={`${flag.category}:${flag.detectedBy}`} variant="destructive">
+                            {flag.category}
+                          </Badge>
+                        ))}
+                        {pair.needsReview && (
+                          <Badge variant="outline" className="bg-yellow-100 text-yellow-800">
+                            Needs review
+                          </Badge>
+                        )}
+                        {ConversationService.isConversation(pair) && (
+                          <Badge variant="outline">
+                            {pair.turns.length / 2} turns
+                          </Badge>
+                        )}
+                        {ToolService.isToolPair(pair) && (
+                          <Badge variant="outline">
+                            {pair.toolSteps.reduce((count, step) => count + step.calls.length, 0)} tool calls
+                          </Badge>
+                        )}
+                        <Badge variant={pair.source === 'synthetic' ? 'secondary' : pair.source === 'unanswerable' ? 'outline' : 'default'}>
+                          {pair.source === 'unanswerable' && pair.refusalKind ? `unanswerable: ${pair.refusalKind}` : pair.source || 'Original'}
                         </Badge>
                       </div>
-                      <Badge variant={pair.source === 'synthetic' ? 'secondary' : 'default'}>
-                        {pair.source || 'Original'}
-                      </Badge>
                     </div>
 
                     <div className="space-y-3">
-                      <div>
-                        <div className="text-sm font-medium text-gray-700 mb-1">Question:</div>
-                        <div className="text-gray-900">{pair.user}</div>
-                      </div>
+                      {ConversationService.isConversation(pair) ? (
+                        pair.turns
+                          .filter(turn => showAnswers || turn.role === 'user')
+                          .map((turn, turnIndex) => (
+                            <div key={turnIndex}>
+                              <div className="text-sm font-medium text-gray-700 mb-1">
+                                {turn.role === 'user' ? 'User' : 'Assistant'}:
+                                {turn.intent && <span className="text-xs text-gray-400 ml-2">{turn.intent}</span>}
+                              </div>
+                              <div className={turn.role === 'user' ? 'text-gray-900' : 'text-gray-900 bg-gray-50 p-3 rounded'}>
+                                {turn.content}
+                              </div>
+                            </div>
+                          ))
+                      ) : (
+                        <>
+                          <div>
+                            <div className="text-sm font-medium text-gray-700 mb-1">Question:</div>
+                            <div className="text-gray-900">{pair.user}</div>
+                          </div>
+
+                          {showAnswers && ToolService.isToolPair(pair) && pair.toolSteps.map((step, stepIndex) => (
+                            <div key={stepIndex} className="text-xs space-y-1">
+                              {step.calls.map((call, callIndex) => (
+                                <div key={call.id} className="border-l-2 border-indigo-200 pl-2">
+                                  <div className="font-mono text-indigo-700">
+                                    {call.name}({JSON.stringify(call.arguments)})
+                                  </div>
+                                  <div className="font-mono text-gray-600 whitespace-pre-wrap break-all">
+                                    → {step.results[callIndex].content}
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          ))}
+
+                          {showAnswers && (
+                            <div>
+                              <div className="text-sm font-medium text-gray-700 mb-1">Answer:</div>
+                              <div className="text-gray-900 bg-gray-50 p-3 rounded">
+                                {pair.model}
+                              </div>
+                            </div>
+                          )}
+                        </>
+                      )}
+
+                      {showAnswers && pair.reasoning && (
+                        <details className="text-xs text-gray-600">
+                          <summary className="cursor-pointer">Reasoning</summary>
+                          <div className="whitespace-pre-line text-gray-900 mt-2">{pair.reasoning}</div>
+                        </details>
+                      )}
+
+                      {showAnswers && pair.reasoningCheck && !pair.reasoningCheck.isConsistent && (
+                        <div className="text-xs text-amber-700">
+                          Reasoning dropped as inconsistent with the answer
+                          {pair.reasoningCheck.issues.length > 0 && `: ${pair.reasoningCheck.issues.join('; ')}`}
+                        </div>
+                      )}
 
-                      {showAnswers && (
-                        <div>
-                          <div className="text-sm font-medium text-gray-700 mb-1">Answer:</div>
-                          <div className="text-gray-900 bg-gray-50 p-3 rounded">
-                            {pair.model}
+                      {showAnswers && pair.edits && pair.edits.length > 0 && (
+                        <details className="text-xs text-gray-600">
+                          <summary className="cursor-pointer">Edit history ({pair.edits.length})</summary>
+                          <div className="space-y-2 mt-2">
+                            {pair.edits.map((edit, editIndex) => (
+                              <div key={editIndex} className="border-l-2 border-gray-200 pl-2">
+                                <div className="text-gray-500">
+                                  {edit.stage} · {new Date(edit.editedAt).toLocaleString()} · {edit.reason}
+                                </div>
+                                <div className="line-through text-gray-400">{edit.before}</div>
+                                <div className="text-gray-900">{edit.after}</div>
+                              </div>
+                            ))}
                           </div>
+                        </details>
+                      )}
+
+                      {pair.context && (
+                        <details className="text-xs text-gray-600">
+                          <summary className="cursor-pointer">Retrieved context ({pair.context.length} passages)</summary>
+                          <div className="space-y-2 mt-2">
+                            {pair.context.map((passage, passageIndex) => (
+                              <div
+                                key={`${passage.sourceId}:${passage.chunkIndex}`}
+                                className={`border-l-2 pl-2 ${passage.isGold ? 'border-green-400' : 'border-gray-200'}`}
+                              >
+                                <div className="text-gray-500">
+                                  [{passageIndex + 1}] {passage.sourceLabel} · chunk {passage.chunkIndex + 1}
+                                  {passage.isGold ? ' · gold' : ' · distractor'}
+                                </div>
+                                <div className="text-gray-900 line-clamp-3">{passage.text}</div>
+                              </div>
+                            ))}
+                          </div>
+                        </details>
+                      )}
+
+                      {pair.safetyFlags && pair.safetyFlags.length > 0 && (
+                        <div className="text-xs text-red-700 space-y-1">
+                          {pair.safetyFlags.map(flag => (
+                            <div key={`${flag.category}:${flag.detectedBy}`}>
+                              Flagged as {flag.category} by {flag.detectedBy === 'rules' ? 'local rules' : 'moderation'}
+                              {flag.reason && `: ${flag.reason}`}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {pair.faithfulness && (
+                        <div className={`text-xs p-2 rounded ${pair.faithfulness.isValid ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+                          Faithfulness {Math.round(pair.faithfulness.factualAccuracy * 100)}%
+                          {!pair.faithfulness.isValid && ' · rejected'}
+                          {pair.faithfulness.reasoning && ` · ${pair.faithfulness.reasoning}`}
+                          {pair.faithfulness.unsupportedClaims && pair.faithfulness.unsupportedClaims.length > 0 && (
+                            <ul className="list-disc list-inside mt-1">
+                              {pair.faithfulness.unsupportedClaims.map((claim, claimIndex) => (
+                                <li key={claimIndex}>Unsupported: {claim}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      )}
+
+                      {!pair.isCorrect && pair.correctPairId && (
+                        <div className="text-xs text-gray-500">
+                          Deliberately wrong answer for preference training.
+                          {data.qaPairs.some(other => other.id === pair.correctPairId) ? (
+                            <button
+                              onClick={() => showPair(pair.correctPairId!)}
+                              className="text-indigo-600 hover:underline ml-2"
+                            >
+                              Show correct pair
+                            </button>
+                          ) : ' Its correct pair is no longer in the dataset.'}
+                        </div>
+                      )}
+
+                      {pair.attribution && (
+                        <div className="text-xs text-gray-500">
+                          Source: {pair.attribution.sourceLabel}, part {pair.attribution.chunkIndex + 1}
+                          {attributedSource && (
+                            <button
+                              onClick={() => setViewingSourcePairId(viewingSourcePairId === pair.id ? null : pair.id)}
+                              className="text-indigo-600 hover:underline ml-2"
+                            >
+                              {viewingSourcePairId === pair.id ? 'Hide source' : 'View in source'}
+                            </button>
+                          )}
+                        </div>
+                      )}
+
+                      {attributedSource && viewingSourcePairId === pair.id && (
+                        <SourceViewer
+                          source={attributedSource}
+                          attribution={pair.attribution!}
+                          onClose={() => setViewingSourcePairId(null)}
+                        />
+                      )}
+
+                      {pair.groundingUris && pair.groundingUris.length > 0 && (
+                        <div className="text-xs text-gray-500">
+                          Web sources:{' '}
+                          {pair.groundingUris.map((uri, uriIndex) => (
+                            <a key={uri} href={uri} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline">
+                              [{uriIndex + 1}]{' '}
+                            </a>
+                          ))}
                         </div>
                       )}
                     </div>
@@ -193,6 +529,245 @@ export function DatasetPreview({ data }: DatasetPreviewProps) {
         </CardContent>
       </Card>
 
+      {/* Validation Section */}
+      {(validPairs > 0 || rejectedPairs.length > 0 || failedValidations > 0) && (
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">
+                Validation ({validPairs} validated, {data.repairedPairCount || 0} repaired, {rejectedPairs.length} rejected, {failedValidations} failed, {reviewPairs.length} to review)
+              </h2>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => toggleSection('validation')}
+              >
+                {expandedSections.validation ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              </Button>
+            </div>
+
+            {failedValidations > 0 && (
+              <div className="text-sm text-red-700 bg-red-50 p-3 rounded mb-4">
+                {failedValidations} pairs could not be validated because the validation request failed or skipped them.
+                They are marked as failed, not passed.
+              </div>
+            )}
+
+            {judgeSummaries.length > 1 && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                {judgeSummaries.map(summary => (
+                  <div key={summary.model} className="bg-gray-50 p-3 rounded-lg">
+                    <div className="text-sm font-medium text-gray-900 truncate" title={summary.model}>{summary.model}</div>
+                    <div className="text-xs text-gray-500">
+                      passed {Math.round((summary.passed / summary.count) * 100)}% · avg score {Math.round((summary.totalConfidence / summary.count) * 100)}%
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {expandedSections.validation && (
+              <div className="space-y-3">
+                {reviewPairs.length > 0 && (
+                  <div className="text-sm font-medium text-gray-700">Judges disagreed on:</div>
+                )}
+                {reviewPairs.map(pair => (
+                  <div key={pair.id} className="border border-yellow-200 bg-yellow-50 rounded-lg p-3">
+                    <div className="text-gray-900">{pair.user}</div>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {pair.judgeScores?.map(score => (
+                        <span key={score.model} title={score.reasoning} className={`text-xs px-2 py-1 rounded ${score.isValid ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                          {score.model}: {score.isValid ? 'pass' : 'fail'} {Math.round(score.confidence * 100)}%
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+
+                {rejectedPairs.length > 0 && (
+                  <div className="text-sm font-medium text-gray-700">Rejected:</div>
+                )}
+                {rejectedPairs.length === 0 && (
+                  <div className="text-sm text-gray-500">No pairs were rejected.</div>
+                )}
+                {rejectedPairs.map(pair => (
+                  <div key={pair.id} className="border border-gray-200 rounded-lg p-3">
+                    <div className="text-gray-900">{pair.user}</div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {pair.validation?.reasoning || pair.faithfulness?.reasoning || 'Rejected'}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Knowledge Gaps Section */}
+      {data.gapFillingEnabled && data.identifiedGaps && data.identifiedGaps.length > 0 && (
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">
+                Knowledge Gaps ({data.identifiedGaps.length}) · {data.syntheticPairCount || 0} Synthetic Pairs
+              </h2>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => toggleSection('synthetic')}
+              >
+                {expandedSections.synthetic ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              </Button>
+            </div>
+
+            {expandedSections.synthetic && (
+              <div className="space-y-3">
+                {data.identifiedGaps.map(gap => {
+                  const filledCount = data.qaPairs.filter(pair => 'targetGap' in pair && pair.targetGap === gap.id).length;
+                  return (
+                    <div key={gap.id} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="flex items-center space-x-2">
+                          <Badge variant="outline" className={getPriorityColor(gap.priority)}>
+                            {gap.priority}
+                          </Badge>
+                          <Badge variant="outline">{gap.theme}</Badge>
+                        </div>
+                        <span className="text-sm text-gray-500">{filledCount} pairs</span>
+                      </div>
+                      <div className="text-gray-900">{gap.description}</div>
+                      {gap.relatedConcepts.length > 0 && (
+                        <div className="text-sm text-gray-500 mt-1">
+                          Related: {gap.relatedConcepts.join(', ')}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Redaction Section */}
+      {data.redactionReport && (
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">
+                Redacted Personal Data ({data.redactionReport.totalMatches} replacements)
+              </h2>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => toggleSection('redaction')}
+              >
+                {expandedSections.redaction ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              </Button>
+            </div>
+
+            {expandedSections.redaction && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-500">
+                  Sources were redacted with {data.redactionReport.mode === 'pseudonym' ? 'consistent pseudonyms' : 'placeholders'} before
+                  any model saw them. This mapping is kept in the browser and left out of every export.
+                </p>
+                <RedactionReportSummary report={data.redactionReport} />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Duplicate Clusters Section */}
+      {data.duplicateClusters && data.duplicateClusters.length > 0 && (
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">
+                Merged Duplicates ({data.duplicateClusters.length} clusters)
+              </h2>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => toggleSection('duplicates')}
+              >
+                {expandedSections.duplicates ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              </Button>
+            </div>
+
+            {expandedSections.duplicates && (
+              <div className="space-y-4">
+                {data.duplicateClusters.map(cluster => (
+                  <div key={cluster.id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="text-sm text-gray-500 mb-2">
+                      {cluster.pairs.length} pairs · {Math.round(cluster.similarity * 100)}% similar
+                    </div>
+                    <div className="space-y-2">
+                      {cluster.pairs.map(pair => {
+                        const isKept = pair.id === cluster.keptPairId;
+                        return (
+                          <div key={pair.id} className="flex items-start justify-between">
+                            <div className={isKept ? 'text-gray-900' : 'text-gray-500 line-through'}>
+                              {pair.user}
+                              <span className="text-xs text-gray-400 ml-2">
+                                score {Math.round((pair.validationConfidence ?? pair.confidence ?? 0) * 100)}%
+                              </span>
+                            </div>
+                            {isKept ? (
+                              <Badge variant="default">Kept</Badge>
+                            ) : onSelectDuplicateRepresentative && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => onSelectDuplicateRepresentative(cluster.id, pair.id)}
+                              >
+                                Keep this
+                              </Button>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Web Research Section */}
+      {data.groundingMetadata?.groundingChunks && data.groundingMetadata.groundingChunks.length > 0 && (
+        <Card>
+          <CardContent className="p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Web Sources ({data.groundingMetadata.groundingChunks.length})
+            </h2>
+            {data.groundingMetadata.webSearchQueries && data.groundingMetadata.webSearchQueries.length > 0 && (
+              <div className="text-sm text-gray-500 mb-3">
+                Queries: {data.groundingMetadata.webSearchQueries.join(' · ')}
+              </div>
+            )}
+            <div className="space-y-2">
+              {data.groundingMetadata.groundingChunks.filter(chunk => chunk.web).map(chunk => {
+                const informedCount = data.qaPairs.filter(pair => pair.groundingUris?.includes(chunk.web!.uri)).length;
+                return (
+                  <div key={chunk.web!.uri} className="flex items-center justify-between text-sm">
+                    <a href={chunk.web!.uri} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline truncate mr-4">
+                      {chunk.web!.title}
+                    </a>
+                    <span className="text-gray-500 whitespace-nowrap">{informedCount} pairs</span>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Themes Section */}
       {data.identifiedThemes && data.identifiedThemes.length > 0 && (
         <Card>
@@ -0,0 +1,137 @@
+import { LanguageService, UNDETERMINED_LANGUAGE } from '../services/languageService';
+import type { ContextPlacement, ExportOptions, QAPair, ReasoningFormat } from '../types';
+import { REASONING_TAG } from '../constants';
+
+interface ExportOptionsPanelProps {
+  pairs: QAPair[];
+  options: ExportOptions;
+  onOptionsChange: (options: ExportOptions) => void;
+}
+
+export function ExportOptionsPanel({ pairs, options, onOptionsChange }: ExportOptionsPanelProps) {
+  const languageCounts = pairs
+    .filter(pair => pair.isCorrect)
+    .reduce<Record<string, number>>((counts, pair) => {
+      const language = pair.language || UNDETERMINED_LANGUAGE;
+      counts[language] = (counts[language] || 0) + 1;
+      return counts;
+    }, {});
+  const languages = Object.keys(languageCounts).sort((a, b) => languageCounts[b] - languageCounts[a]);
+
+  const rejectedCount = pairs.filter(pair => pair.validationStatus === 'rejected' || pair.validationStatus === 'failed').length;
+
+  const isSelected = (code: string) => options.languages.length === 0 || options.languages.includes(code);
+
+  const toggleLanguage = (code: string) => {
+    const current = languages.filter(isSelected);
+    const selected = current.includes(code) ? current.filter(c => c !== code) : [...current, code];
+    if (selected.length === 0) return;
+    // Selecting every language is the same as not filtering
+    onOptionsChange({ ...options, languages: selected.length === languages.length ? [] : selected });
+  };
+
+  return (
+    <div className="space-y-4">
+      {languages.length > 1 && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            Export Languages
+          </label>
+          <div className="flex flex-wrap gap-3">
+            {languages.map(code => (
+              <label key={code} className="flex items-center space-x-1 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={isSelected(code)}
+                  onChange={() => toggleLanguage(code)}
+                />
+                <span>{LanguageService.name(code)} ({languageCounts[code]})</span>
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={options.balanceLanguages}
+              onChange={(e) => onOptionsChange({ ...options, balanceLanguages: e.target.checked })}
+            />
+            <span>Balance languages (keep the same number of pairs per language)</span>
+          </label>
+        </div>
+      )}
+
+      {rejectedCount > 0 && (
+        <div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={options.includeRejected}
+              onChange={(e) => onOptionsChange({ ...options, includeRejected: e.target.checked })}
+            />
+            <span>Include rejected pairs ({rejectedCount})</span>
+          </label>
+          <p className="text-xs text-gray-500 mt-1">
+            Pairs the judges or the faithfulness check rejected, and pairs that could not be validated, are left out of every file by default.
+          </p>
+        </div>
+      )}
+
+      {pairs.some(pair => pair.reasoning) && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Reasoning in Answers
+          </label>
+          <select
+            value={options.reasoningFormat}
+            onChange={(e) => onOptionsChange({ ...options, reasoningFormat: e.target.value as ReasoningFormat })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="tagged">In a &lt;{REASONING_TAG}&gt; block before the answer</option>
+            <option value="inline">Inline, as plain text before the answer</option>
+            <option value="none">Leave out</option>
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            Applies to the chat and RAG files. CSV and JSON keep the reasoning in its own field.
+          </p>
+        </div>
+      )}
+
+      {pairs.some(pair => pair.context) && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            RAG Context Placement
+          </label>
+          <select
+            value={options.contextPlacement}
+            onChange={(e) => onOptionsChange({ ...options, contextPlacement: e.target.value as ContextPlacement })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="system">System message</option>
+            <option value="user">User message, before the question</option>
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            Applies to the RAG chat and instruction files.
+          </p>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Test Split: {Math.round(options.testSplit * 100)}%
+        </label>
+        <input
+          type="range"
+          min={0}
+          max={0.5}
+          step={0.05}
+          value={options.testSplit}
+          onChange={(e) => onOptionsChange({ ...options, testSplit: Number(e.target.value) })}
+          className="w-full"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Also writes train and test JSONL files. Variants and translations stay in the same file as their original pair.
+        </p>
+      </div>
+    </div>
+  );
+}
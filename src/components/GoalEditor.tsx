@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Save, Trash2, X } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Alert } from './ui/Alert';
+import { goalService } from '../services/goalService';
+import { QUESTION_TYPES } from '../constants';
+import type { FineTuningGoalConfig, QuestionType } from '../types';
+
+interface GoalEditorProps {
+  goal: FineTuningGoalConfig;
+  isNew: boolean;
+  onSave: (goal: FineTuningGoalConfig) => void;
+  onDelete: (id: string) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+export function GoalEditor({ goal, isNew, onSave, onDelete, onCancel }: GoalEditorProps) {
+  const [draft, setDraft] = useState<FineTuningGoalConfig>(goal);
+  const hasQuestionTypes = QUESTION_TYPES.some(type => (draft.questionTypeMix[type] ?? 0) > 0);
+  const canSave = draft.name.trim() !== '' && draft.promptFocus.trim() !== '' && hasQuestionTypes;
+
+  const update = (changes: Partial<FineTuningGoalConfig>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const updateWeight = (type: QuestionType, weight: number) => {
+    update({ questionTypeMix: { ...draft.questionTypeMix, [type]: Math.max(0, weight) } });
+  };
+
+  return (
+    <div className="space-y-3 border border-gray-200 rounded-md p-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900">
+          {isNew ? 'New Fine-tuning Goal' : `Edit "${goal.name}"`}
+        </h4>
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-4 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Icon</label>
+          <input value={draft.icon} onChange={(e) => update({ icon: e.target.value })} className={inputClassName} />
+        </div>
+        <div className="col-span-3">
+          <label className="block text-xs font-medium text-gray-700 mb-1">Name</label>
+          <input value={draft.name} onChange={(e) => update({ name: e.target.value })} className={inputClassName} />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Description</label>
+        <input value={draft.description} onChange={(e) => update({ description: e.target.value })} className={inputClassName} />
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Prompt Focus</label>
+        <input
+          value={draft.promptFocus}
+          onChange={(e) => update({ promptFocus: e.target.value })}
+          placeholder="e.g. troubleshooting steps for our product"
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Answer Style</label>
+        <textarea
+          value={draft.answerStyle}
+          onChange={(e) => update({ answerStyle: e.target.value })}
+          placeholder="e.g. Friendly, two to three sentences, ends with a next step"
+          rows={2}
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">
+          Question Type Mix: {goalService.describeQuestionTypeMix(draft)}
+        </label>
+        <div className="grid grid-cols-5 gap-2">
+          {QUESTION_TYPES.map(type => (
+            <div key={type}>
+              <div className="text-xs text-gray-500 mb-1">{type}</div>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                value={draft.questionTypeMix[type] ?? 0}
+                onChange={(e) => updateWeight(type, Number(e.target.value))}
+                className={inputClassName}
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">Relative weights; a type with weight 0 is not requested.</p>
+      </div>
+
+      {!canSave && (
+        <Alert type="warning" message="A goal needs a name, a prompt focus and at least one question type." />
+      )}
+
+      <div className="flex items-center space-x-2">
+        <Button size="sm" onClick={() => onSave(draft)} disabled={!canSave}>
+          <Save className="w-4 h-4 mr-1" />
+          Save Goal
+        </Button>
+        {!isNew && (
+          <Button variant="ghost" size="sm" onClick={() => onDelete(draft.id)}>
+            <Trash2 className="w-4 h-4 mr-1" />
+            Delete
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/Button';
+import { SUGGESTED_JUDGE_MODELS } from '../constants';
+import type { JudgeConfig, ConsensusMethod } from '../types';
+
+interface JudgePanelEditorProps {
+  judges: JudgeConfig[];
+  consensusMethod: ConsensusMethod;
+  onJudgesChange: (judges: JudgeConfig[]) => void;
+  onConsensusMethodChange: (method: ConsensusMethod) => void;
+}
+
+export function JudgePanelEditor({ judges, consensusMethod, onJudgesChange, onConsensusMethodChange }: JudgePanelEditorProps) {
+  const updateJudge = (index: number, changes: Partial<JudgeConfig>) => {
+    onJudgesChange(judges.map((judge, i) => i === index ? { ...judge, ...changes } : judge));
+  };
+
+  const addJudge = () => {
+    const model = SUGGESTED_JUDGE_MODELS.find(suggestion => !judges.some(judge => judge.model === suggestion))
+      ?? SUGGESTED_JUDGE_MODELS[0];
+    onJudgesChange([...judges, { model, weight: 1 }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-700">
+        Validation Judges
+      </label>
+
+      <div className="space-y-2">
+        {judges.map((judge, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <input
+              value={judge.model}
+              onChange={(e) => updateJudge(index, { model: e.target.value })}
+              list="judge-models"
+              placeholder="OpenRouter model id"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            {consensusMethod === 'weighted' && (
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={judge.weight}
+                onChange={(e) => updateJudge(index, { weight: Number(e.target.value) })}
+                title="Weight"
+                className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onJudgesChange(judges.filter((_, i) => i !== index))}
+              disabled={judges.length === 1}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <datalist id="judge-models">
+          {SUGGESTED_JUDGE_MODELS.map(model => <option key={model} value={model} />)}
+        </datalist>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <select
+          value={consensusMethod}
+          onChange={(e) => onConsensusMethodChange(e.target.value as ConsensusMethod)}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="majority">Majority vote</option>
+          <option value="weighted">Weighted average score</option>
+        </select>
+        <Button variant="outline" size="sm" onClick={addJudge}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add Judge
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Each judge scores every pair independently. Pairs the judges disagree on are flagged for review.
+      </p>
+    </div>
+  );
+}
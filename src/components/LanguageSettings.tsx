@@ -0,0 +1,82 @@
+import { LANGUAGES } from '../constants';
+import type { LanguageConfig } from '../types';
+
+interface LanguageSettingsProps {
+  config: LanguageConfig;
+  onConfigChange: (config: LanguageConfig) => void;
+}
+
+interface LanguagePickerProps {
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+function LanguagePicker({ selected, onChange }: LanguagePickerProps) {
+  const toggle = (code: string) => {
+    onChange(selected.includes(code) ? selected.filter(c => c !== code) : [...selected, code]);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {LANGUAGES.map(language => (
+        <button
+          key={language.code}
+          type="button"
+          onClick={() => toggle(language.code)}
+          className={`text-xs rounded px-2 py-1 border ${
+            selected.includes(language.code)
+              ? 'bg-indigo-600 border-indigo-600 text-white'
+              : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          {language.name}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function LanguageSettings({ config, onConfigChange }: LanguageSettingsProps) {
+  const update = (changes: Partial<LanguageConfig>) => {
+    onConfigChange({ ...config, ...changes });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Output Language
+        </label>
+        <select
+          value={config.generation}
+          onChange={(e) => update({ generation: e.target.value as LanguageConfig['generation'] })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="source">Same language as each source</option>
+          <option value="targets">Chosen target languages</option>
+        </select>
+      </div>
+
+      {config.generation === 'targets' && (
+        <div>
+          <LanguagePicker selected={config.targets} onChange={(targets) => update({ targets })} />
+          <p className="text-xs text-gray-500 mt-1">
+            {config.targets.length === 0
+              ? 'Pick at least one language, otherwise pairs are written in the source language.'
+              : 'Generation batches take turns between the chosen languages.'}
+          </p>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Translated Copies
+        </label>
+        <LanguagePicker selected={config.translations} onChange={(translations) => update({ translations })} />
+        <p className="text-xs text-gray-500 mt-1">
+          Every correct pair also gets a translated copy in each selected language, linked to its original.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { ArrowUp, ArrowDown, Plus, Trash2, RotateCcw } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Alert } from './ui/Alert';
+import { PIPELINE_STAGES } from '../services/pipelineStages';
+import { pipelineService, DEFAULT_PIPELINE } from '../services/pipelineService';
+import type { PipelineStageConfig, PipelineStageId } from '../types';
+
+interface PipelineEditorProps {
+  pipeline: PipelineStageConfig[];
+  onPipelineChange: (pipeline: PipelineStageConfig[]) => void;
+}
+
+export function PipelineEditor({ pipeline, onPipelineChange }: PipelineEditorProps) {
+  const repeatableStages = Object.values(PIPELINE_STAGES).filter(stage => stage.repeatable);
+  const [stageToAdd, setStageToAdd] = useState<PipelineStageId>(repeatableStages[0].id);
+  const errors = pipelineService.validatePipeline(pipeline);
+
+  const updateEntry = (key: string, changes: Partial<PipelineStageConfig>) => {
+    onPipelineChange(pipeline.map(entry => entry.key === key ? { ...entry, ...changes } : entry));
+  };
+
+  const moveEntry = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= pipeline.length) return;
+    const next = [...pipeline];
+    [next[index], next[target]] = [next[target], next[index]];
+    onPipelineChange(next);
+  };
+
+  const removeEntry = (key: string) => {
+    onPipelineChange(pipeline.filter(entry => entry.key !== key));
+  };
+
+  const addEntry = () => {
+    const entry = pipelineService.createStageEntry(stageToAdd, pipeline);
+    // New stages go right before the locked compile stage
+    const compileIndex = pipeline.findIndex(existing => PIPELINE_STAGES[existing.stageId].locked);
+    const next = [...pipeline];
+    next.splice(compileIndex === -1 ? next.length : compileIndex, 0, entry);
+    onPipelineChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">
+          Pipeline Stages
+        </label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onPipelineChange(DEFAULT_PIPELINE)}
+        >
+          <RotateCcw className="w-4 h-4 mr-1" />
+          Reset
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {pipeline.map((entry, index) => {
+          const stage = PIPELINE_STAGES[entry.stageId];
+          const isDefaultEntry = DEFAULT_PIPELINE.some(defaultEntry => defaultEntry.key === entry.key);
+          return (
+            <div
+              key={entry.key}
+              className={`flex items-center justify-between border border-gray-200 rounded-md px-3 py-2 ${entry.enabled ? '' : 'opacity-60'}`}
+            >
+              <label className="flex items-start space-x-3 flex-1">
+                <input
+                  type="checkbox"
+                  checked={entry.enabled}
+                  disabled={stage.locked}
+                  onChange={(e) => updateEntry(entry.key, { enabled: e.target.checked })}
+                  className="mt-1"
+                />
+                <div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {index + 1}. {stage.name}
+                    {!isDefaultEntry && <span className="text-gray-500"> (repeat)</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">{stage.description}</div>
+                  <div className="text-xs text-gray-400">
+                    In: {stage.inputs.join(', ') || 'none'} · Out: {stage.outputs.join(', ') || 'none'}
+                  </div>
+                </div>
+              </label>
+              {!stage.locked && (
+                <div className="flex items-center space-x-1">
+                  <Button variant="ghost" size="sm" onClick={() => moveEntry(index, -1)} disabled={index === 0}>
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => moveEntry(index, 1)} disabled={index === pipeline.length - 1}>
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  {!isDefaultEntry && (
+                    <Button variant="ghost" size="sm" onClick={() => removeEntry(entry.key)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <select
+          value={stageToAdd}
+          onChange={(e) => setStageToAdd(e.target.value as PipelineStageId)}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {repeatableStages.map(stage => (
+            <option key={stage.id} value={stage.id}>{stage.name}</option>
+          ))}
+        </select>
+        <Button variant="outline" size="sm" onClick={addEntry}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add Stage
+        </Button>
+      </div>
+
+      {errors.length > 0 && (
+        <Alert type="warning" title="Pipeline cannot run" message={errors.join('. ')} />
+      )}
+    </div>
+  );
+}
@@ -1,31 +1,73 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { CheckCircle, AlertCircle, Clock, Loader } from 'lucide-react';
+import { CheckCircle, AlertCircle, Clock, Loader, Pause } from 'lucide-react';
 import { Card, CardContent } from './ui/Card';
 import { ThoughtBubble } from './ui/ThoughtBubble';
 import { ProgressBar } from './ui/ProgressBar';
+import type { PipelineStageTiming } from '../types';
 
 interface ProcessingStatusProps {
   currentStep: string;
   progress: number;
   isProcessing?: boolean;
+  isPaused?: boolean;
   error?: string;
   estimatedTimeRemaining?: number;
   totalEstimatedTime?: number;
+  stageTimeline?: PipelineStageTiming[];
 }
 
 export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
   currentStep,
   progress,
   isProcessing = false,
+  isPaused = false,
   error,
   estimatedTimeRemaining,
   totalEstimatedTime,
+  stageTimeline = [],
 }) => {
   const [dots, setDots] = useState('');
+  const [now, setNow] = useState(Date.now());
+  const [estimateReceivedAt, setEstimateReceivedAt] = useState(Date.now());
+  const [pauses, setPauses] = useState<Array<{ start: number; end?: number }>>([]);
   const intervalRef = useRef<NodeJS.Timeout>();
 
+  // Tick once a second so running stages and the ETA count live between batch updates
   useEffect(() => {
-    if (isProcessing) {
+    if (!isProcessing) return;
+    const clock = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(clock);
+  }, [isProcessing]);
+
+  useEffect(() => {
+    setEstimateReceivedAt(Date.now());
+  }, [estimatedTimeRemaining]);
+
+  useEffect(() => {
+    const at = Date.now();
+    setNow(at);
+    setPauses(prev => {
+      const last = prev[prev.length - 1];
+      if (isPaused) return last && last.end === undefined ? prev : [...prev, { start: at }];
+      return last && last.end === undefined ? [...prev.slice(0, -1), { ...last, end: at }] : prev;
+    });
+  }, [isPaused]);
+
+  // Seconds between two moments with the time spent paused left out, so the ETA and stage timers stand still while paused
+  const activeSeconds = (from: number, to: number) => {
+    const paused = pauses.reduce((sum, pause) => {
+      const overlap = Math.min(to, pause.end ?? now) - Math.max(from, pause.start);
+      return sum + Math.max(0, overlap);
+    }, 0);
+    return Math.max(0, Math.floor((to - from - paused) / 1000));
+  };
+
+  const liveTimeRemaining = estimatedTimeRemaining !== undefined
+    ? Math.max(0, estimatedTimeRemaining - activeSeconds(estimateReceivedAt, now))
+    : undefined;
+
+  useEffect(() => {
+    if (isProcessing && !isPaused) {
       intervalRef.current = setInterval(() => {
         setDots(prev => prev.length >= 3 ? '' : prev + '.');
       }, 500);
@@ -38,7 +80,21 @@ export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
         clearInterval(intervalRef.current);
       }
     };
-  }, [isProcessing]);
+  }, [isProcessing, isPaused]);
+
+  const getStageElapsed = (stage: PipelineStageTiming) => {
+    if (!stage.startedAt) return undefined;
+    return activeSeconds(stage.startedAt, stage.finishedAt ?? now);
+  };
+
+  const getStageColor = (status: PipelineStageTiming['status']) => {
+    switch (status) {
+      case 'done': return 'text-success';
+      case 'restored': return 'text-accent';
+      case 'running': return 'neon-text-accent';
+      default: return 'text-muted';
+    }
+  };
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -49,6 +105,7 @@ export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
   const getStatusIcon = () => {
     if (error) return <AlertCircle size={24} className="text-error" style={{ filter: 'drop-shadow(0 0 5px #dc1aff)' }} />;
     if (progress === 100) return <CheckCircle size={24} className="text-success" style={{ filter: 'drop-shadow(0 0 5px #00FF41)' }} />;
+    if (isPaused) return <Pause size={24} className="text-warning" />;
     if (isProcessing) return <ThoughtBubble size="md" />;
     return <Clock size={24} className="text-muted" />;
   };
@@ -56,6 +113,7 @@ export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
   const getStatusText = () => {
     if (error) return 'ERROR OCCURRED';
     if (progress === 100) return 'PROCESSING COMPLETE';
+    if (isPaused) return currentStep.toUpperCase();
     if (isProcessing) return `${currentStep.toUpperCase()}${dots}`;
     return 'READY TO PROCESS';
   };
@@ -63,6 +121,7 @@ export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
   const getStatusColor = () => {
     if (error) return 'neon-text-red';
     if (progress === 100) return 'neon-text';
+    if (isPaused) return 'text-warning';
     if (isProcessing) return 'neon-text-accent';
     return 'text-muted';
   };
@@ -86,15 +145,15 @@ export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
             </div>
             
             {/* Time Display */}
-            {(estimatedTimeRemaining || totalEstimatedTime) && (
+            {(liveTimeRemaining !== undefined || totalEstimatedTime) && (
               <div className="text-right space-y-1">
-                {estimatedTimeRemaining && estimatedTimeRemaining > 0 && (
+                {liveTimeRemaining !== undefined && liveTimeRemaining > 0 && (
                   <div>
                     <p className="text-sm text-accent font-mono tracking-wide">EST. REMAINING</p>
                     <p className="text-2xl font-bold font-mono text-warning tracking-wider" style={{
                       textShadow: '0 0 5px #FFFF00'
                     }}>
-                      {formatTime(estimatedTimeRemaining)}
+                      {formatTime(liveTimeRemaining)}
                     </p>
                   </div>
                 )}
@@ -120,11 +179,40 @@ export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
             <ProgressBar 
               progress={progress} 
               className="h-4"
-              animated={isProcessing}
+              animated={isProcessing && !isPaused}
               showPercentage={false}
             />
           </div>
 
+          {/* Stage Timeline */}
+          {stageTimeline.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-accent font-bold font-mono tracking-wide">STAGES</span>
+              <ol className="space-y-1">
+                {stageTimeline.map(stage => {
+                  const elapsed = getStageElapsed(stage);
+                  return (
+                    <li key={stage.key} className="flex items-center justify-between font-mono text-sm">
+                      <span className={`flex items-center space-x-2 ${getStageColor(stage.status)}`}>
+                        {stage.status === 'running' ? (
+                          <Loader size={14} className="animate-spin" />
+                        ) : stage.status === 'pending' ? (
+                          <Clock size={14} />
+                        ) : (
+                          <CheckCircle size={14} />
+                        )}
+                        <span>{stage.name.toUpperCase()}</span>
+                      </span>
+                      <span className="text-muted">
+                        {stage.status === 'restored' ? 'FROM CHECKPOINT' : elapsed !== undefined ? formatTime(elapsed) : 'PENDING'}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="cyber-alert-error p-4 rounded-lg border">
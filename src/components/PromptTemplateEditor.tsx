@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { RotateCcw, Save } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Alert } from './ui/Alert';
+import { promptService } from '../services/promptService';
+import type { PromptTemplate, PromptTemplateId } from '../types';
+
+export function PromptTemplateEditor() {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(() => promptService.list());
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>(templates[0].id);
+  const template = templates.find(t => t.id === selectedId) ?? templates[0];
+  const [draft, setDraft] = useState(template.body);
+  const isDirty = draft !== template.body;
+  const unknownVariables = promptService.findUnknownVariables(template, draft);
+
+  const selectTemplate = (id: PromptTemplateId) => {
+    setSelectedId(id);
+    setDraft(promptService.get(id).body);
+  };
+
+  const applyChange = (updated: PromptTemplate) => {
+    setTemplates(promptService.list());
+    setDraft(updated.body);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">
+          Prompt Templates
+        </label>
+        <span className="text-xs text-gray-500">
+          v{template.version}{template.isCustom ? ' (custom)' : ' (default)'}{isDirty ? ' · unsaved changes' : ''}
+        </span>
+      </div>
+
+      <select
+        value={selectedId}
+        onChange={(e) => selectTemplate(e.target.value as PromptTemplateId)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      >
+        {templates.map(t => (
+          <option key={t.id} value={t.id}>
+            {t.name} (v{t.version}{t.isCustom ? ', custom' : ''})
+          </option>
+        ))}
+      </select>
+      <p className="text-xs text-gray-500">{template.description}</p>
+
+      <div className="flex flex-wrap gap-2">
+        {template.variables.map(variable => (
+          <span
+            key={variable.name}
+            title={variable.description}
+            className="text-xs font-mono bg-gray-100 text-gray-700 rounded px-2 py-1"
+          >
+            {`{{${variable.name}}}`}: {variable.type}
+          </span>
+        ))}
+      </div>
+
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={10}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+
+      {unknownVariables.length > 0 && (
+        <Alert
+          type="warning"
+          message={`Unknown variables will be sent to the model as written: ${unknownVariables.map(name => `{{${name}}}`).join(', ')}`}
+        />
+      )}
+
+      <div>
+        <div className="text-xs font-medium text-gray-700 mb-1">Preview with sample values</div>
+        <pre className="text-xs text-gray-700 bg-gray-50 border border-gray-200 rounded-md p-3 whitespace-pre-wrap max-h-64 overflow-y-auto">
+          {promptService.renderPreview(template, draft)}
+        </pre>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Button
+          size="sm"
+          onClick={() => applyChange(promptService.save(selectedId, draft))}
+          disabled={!isDirty || draft.trim() === ''}
+        >
+          <Save className="w-4 h-4 mr-1" />
+          Save New Version
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => applyChange(promptService.reset(selectedId))}
+          disabled={!template.isCustom}
+        >
+          <RotateCcw className="w-4 h-4 mr-1" />
+          Reset to Default
+        </Button>
+      </div>
+    </div>
+  );
+}
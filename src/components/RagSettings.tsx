@@ -0,0 +1,64 @@
+import { RAG_MAX_DISTRACTORS } from '../constants';
+import type { ContextOrder, RagConfig } from '../types';
+
+interface RagSettingsProps {
+  config: RagConfig;
+  onConfigChange: (config: RagConfig) => void;
+}
+
+export function RagSettings({ config, onConfigChange }: RagSettingsProps) {
+  const update = (changes: Partial<RagConfig>) => {
+    onConfigChange({ ...config, ...changes });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+        />
+        <span>Retrieval-augmented (RAG) examples</span>
+      </label>
+
+      {config.enabled && (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Distractor Passages: {config.distractorCount}
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={RAG_MAX_DISTRACTORS}
+              step={1}
+              value={config.distractorCount}
+              onChange={(e) => update({ distractorCount: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Context Order
+            </label>
+            <select
+              value={config.order}
+              onChange={(e) => update({ order: e.target.value as ContextOrder })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="shuffled">Gold passage at a random position</option>
+              <option value="gold-first">Gold passage first</option>
+              <option value="gold-last">Gold passage last</option>
+            </select>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Each question is packed with the chunk its answer comes from and distractor chunks, preferably from other sources. Unanswerable questions get distractors only.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
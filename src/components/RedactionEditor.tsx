@@ -0,0 +1,142 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/Button';
+import { RedactionReportSummary } from './RedactionReportSummary';
+import { RedactionService } from '../services/redactionService';
+import type { PiiCategory, PiiDetector, RedactionConfig, RedactionMode, RedactionReport } from '../types';
+
+interface RedactionEditorProps {
+  config: RedactionConfig;
+  onConfigChange: (config: RedactionConfig) => void;
+  preview: RedactionReport | null; // Report for the currently added sources
+}
+
+const PII_CATEGORIES: PiiCategory[] = ['email', 'phone', 'name', 'account', 'secret', 'address', 'ip', 'other'];
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+export function RedactionEditor({ config, onConfigChange, preview }: RedactionEditorProps) {
+  const update = (changes: Partial<RedactionConfig>) => {
+    onConfigChange({ ...config, ...changes });
+  };
+
+  const updateDetector = (id: string, changes: Partial<PiiDetector>) => {
+    update({ detectors: config.detectors.map(detector => detector.id === id ? { ...detector, ...changes } : detector) });
+  };
+
+  const addDetector = (kind: PiiDetector['kind']) => {
+    const detector: PiiDetector = {
+      id: `custom-${Date.now()}`,
+      name: kind === 'regex' ? 'Custom pattern' : 'Custom word list',
+      category: 'other',
+      kind,
+      pattern: '',
+      enabled: true,
+      isCustom: true,
+    };
+    update({ detectors: [...config.detectors, detector] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+        />
+        <span>Redact personal data before sending content to models</span>
+      </label>
+
+      {config.enabled && (
+        <>
+          <select
+            value={config.mode}
+            onChange={(e) => update({ mode: e.target.value as RedactionMode })}
+            className={inputClassName}
+          >
+            <option value="placeholder">Placeholders, e.g. [EMAIL_1]</option>
+            <option value="pseudonym">Consistent pseudonyms, e.g. person1@example.com</option>
+          </select>
+
+          <div className="space-y-2">
+            {config.detectors.map(detector => {
+              const problem = detector.enabled ? RedactionService.checkDetector(detector) : null;
+              return (
+                <div key={detector.id} className="border border-gray-200 rounded-md p-3 space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={detector.enabled}
+                      onChange={(e) => updateDetector(detector.id, { enabled: e.target.checked })}
+                    />
+                    {detector.isCustom ? (
+                      <input
+                        value={detector.name}
+                        onChange={(e) => updateDetector(detector.id, { name: e.target.value })}
+                        className={inputClassName}
+                      />
+                    ) : (
+                      <span className="flex-1 text-sm text-gray-900">{detector.name}</span>
+                    )}
+                    <select
+                      value={detector.category}
+                      onChange={(e) => updateDetector(detector.id, { category: e.target.value as PiiCategory })}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    >
+                      {PII_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+                    </select>
+                    {detector.isCustom && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => update({ detectors: config.detectors.filter(d => d.id !== detector.id) })}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+
+                  {detector.kind === 'regex' ? (
+                    <input
+                      value={detector.pattern}
+                      onChange={(e) => updateDetector(detector.id, { pattern: e.target.value })}
+                      placeholder="Regular expression"
+                      className={`${inputClassName} font-mono text-xs`}
+                    />
+                  ) : (
+                    <textarea
+                      value={detector.pattern}
+                      onChange={(e) => updateDetector(detector.id, { pattern: e.target.value })}
+                      placeholder="One name or term per line"
+                      rows={3}
+                      className={`${inputClassName} text-xs`}
+                    />
+                  )}
+                  {problem && <p className="text-xs text-red-600">{problem}</p>}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={() => addDetector('regex')}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Pattern
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => addDetector('dictionary')}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Word List
+            </Button>
+          </div>
+
+          {preview && (
+            <div>
+              <div className="text-xs font-medium text-gray-700 mb-1">Redactions in the current sources</div>
+              <RedactionReportSummary report={preview} />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Button } from './ui/Button';
+import { Alert } from './ui/Alert';
+import { REDACTION_PREVIEW_ENTRIES } from '../constants';
+import type { RedactionReport, PiiCategory } from '../types';
+
+interface RedactionReportSummaryProps {
+  report: RedactionReport;
+}
+
+export function RedactionReportSummary({ report }: RedactionReportSummaryProps) {
+  const [showAll, setShowAll] = useState(false);
+  const entries = showAll ? report.entries : report.entries.slice(0, REDACTION_PREVIEW_ENTRIES);
+
+  const categoryCounts = report.entries.reduce((counts, entry) => {
+    counts[entry.category] = (counts[entry.category] || 0) + entry.count;
+    return counts;
+  }, {} as Partial<Record<PiiCategory, number>>);
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm text-gray-700">
+        {report.totalMatches} replacements of {report.entries.length} distinct values
+        {report.entries.length > 0 && (
+          <span className="text-gray-500">
+            {' '}({Object.entries(categoryCounts).map(([category, count]) => `${category}: ${count}`).join(', ')})
+          </span>
+        )}
+      </div>
+
+      {report.invalidDetectors.length > 0 && (
+        <Alert
+          type="warning"
+          message={`These detectors were skipped because their pattern is invalid or empty: ${report.invalidDetectors.join(', ')}`}
+        />
+      )}
+
+      {entries.length > 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1">Original</th>
+              <th className="py-1">Replacement</th>
+              <th className="py-1">Type</th>
+              <th className="py-1 text-right">Count</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={`${entry.category}:${entry.original}`} className="border-t border-gray-100">
+                <td className="py-1 pr-2 font-mono text-gray-900 break-all">{entry.original}</td>
+                <td className="py-1 pr-2 font-mono text-gray-700 break-all">{entry.replacement}</td>
+                <td className="py-1 pr-2 text-gray-500">{entry.category}</td>
+                <td className="py-1 text-right text-gray-500">{entry.count}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {report.entries.length > REDACTION_PREVIEW_ENTRIES && (
+        <Button variant="ghost" size="sm" onClick={() => setShowAll(!showAll)}>
+          {showAll ? 'Show fewer' : `Show all ${report.entries.length}`}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/Button';
+import { SafetyService } from '../services/safetyService';
+import type { SafetyAction, SafetyCategory, SafetyConfig } from '../types';
+
+interface SafetyEditorProps {
+  config: SafetyConfig;
+  onConfigChange: (config: SafetyConfig) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+export function SafetyEditor({ config, onConfigChange }: SafetyEditorProps) {
+  const update = (changes: Partial<SafetyConfig>) => {
+    onConfigChange({ ...config, ...changes });
+  };
+
+  const updateCategory = (id: string, changes: Partial<SafetyCategory>) => {
+    update({ categories: config.categories.map(category => category.id === id ? { ...category, ...changes } : category) });
+  };
+
+  const addCategory = () => {
+    const category: SafetyCategory = {
+      id: `custom-${Date.now()}`,
+      name: 'Custom category',
+      description: '',
+      rules: '',
+      enabled: true,
+      isCustom: true,
+    };
+    update({ categories: [...config.categories, category] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-700">
+        Safety Screening
+      </label>
+
+      <div className="flex items-center space-x-2">
+        <select
+          value={config.action}
+          onChange={(e) => update({ action: e.target.value as SafetyAction })}
+          className={inputClassName}
+        >
+          <option value="drop">Drop flagged pairs</option>
+          <option value="tag">Keep flagged pairs and tag them</option>
+        </select>
+        <label className="flex items-center space-x-2 text-sm text-gray-700 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={config.useModeration}
+            onChange={(e) => update({ useModeration: e.target.checked })}
+          />
+          <span>Model moderation</span>
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        {config.categories.map(category => {
+          const invalidRules = SafetyService.findInvalidRules(category.rules);
+          return (
+            <div key={category.id} className="border border-gray-200 rounded-md p-3 space-y-2">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={category.enabled}
+                  onChange={(e) => updateCategory(category.id, { enabled: e.target.checked })}
+                />
+                {category.isCustom ? (
+                  <input
+                    value={category.name}
+                    onChange={(e) => updateCategory(category.id, { name: e.target.value })}
+                    className={inputClassName}
+                  />
+                ) : (
+                  <span className="flex-1 text-sm text-gray-900">{category.name}</span>
+                )}
+                {category.isCustom && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => update({ categories: config.categories.filter(c => c.id !== category.id) })}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+
+              {category.enabled && (
+                <>
+                  <input
+                    value={category.description}
+                    onChange={(e) => updateCategory(category.id, { description: e.target.value })}
+                    placeholder="What the moderation model should look for"
+                    className={`${inputClassName} text-xs`}
+                  />
+                  <textarea
+                    value={category.rules}
+                    onChange={(e) => updateCategory(category.id, { rules: e.target.value })}
+                    placeholder="One keyword or /regex/flags per line"
+                    rows={2}
+                    className={`${inputClassName} font-mono text-xs`}
+                  />
+                  {invalidRules.length > 0 && (
+                    <p className="text-xs text-red-600">Invalid rules are ignored: {invalidRules.join(', ')}</p>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <Button variant="outline" size="sm" onClick={addCategory}>
+        <Plus className="w-4 h-4 mr-1" />
+        Add Category
+      </Button>
+      <p className="text-xs text-gray-500">
+        Keywords match whole words in any message of a pair. Model moderation also screens for each category's description.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+import { Button } from './ui/Button';
+import type { SourceContent, SourceAttribution } from '../types';
+
+interface SourceViewerProps {
+  source: SourceContent;
+  attribution: SourceAttribution;
+  onClose: () => void;
+}
+
+export function SourceViewer({ source, attribution, onClose }: SourceViewerProps) {
+  const highlightRef = useRef<HTMLElement>(null);
+
+  // Jump straight to the supporting passage
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [attribution]);
+
+  return (
+    <div className="border border-indigo-200 rounded-lg p-4 bg-white">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-sm font-medium text-gray-900">
+          {attribution.sourceLabel}
+          <span className="text-xs text-gray-500 ml-2">
+            part {attribution.chunkIndex + 1} · characters {attribution.start}-{attribution.end}
+          </span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="text-sm text-gray-700 whitespace-pre-wrap max-h-64 overflow-y-auto bg-gray-50 p-3 rounded">
+        {source.content.slice(0, attribution.start)}
+        <mark ref={highlightRef} className="bg-yellow-200">
+          {source.content.slice(attribution.start, attribution.end)}
+        </mark>
+        {source.content.slice(attribution.end)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/Button';
+import { ToolService } from '../services/toolService';
+import type { ToolDefinition } from '../types';
+
+interface ToolSchemaEditorProps {
+  tools: ToolDefinition[];
+  onToolsChange: (tools: ToolDefinition[]) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const EMPTY_PARAMETERS = JSON.stringify({ type: 'object', properties: {}, required: [] }, null, 2);
+
+export function ToolSchemaEditor({ tools, onToolsChange }: ToolSchemaEditorProps) {
+  const updateTool = (id: string, changes: Partial<ToolDefinition>) => {
+    onToolsChange(tools.map(tool => tool.id === id ? { ...tool, ...changes } : tool));
+  };
+
+  const addTool = () => {
+    const tool: ToolDefinition = {
+      id: `tool-${Date.now()}`,
+      name: `tool_${tools.length + 1}`,
+      description: '',
+      parameters: EMPTY_PARAMETERS,
+      enabled: true,
+    };
+    onToolsChange([...tools, tool]);
+  };
+
+  const usableCount = ToolService.usableTools(tools).length;
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-700">
+        Tools
+      </label>
+
+      <div className="space-y-2">
+        {tools.map(tool => {
+          const problem = tool.enabled ? ToolService.checkTool(tool, tools) : null;
+          return (
+            <div key={tool.id} className="border border-gray-200 rounded-md p-3 space-y-2">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={tool.enabled}
+                  onChange={(e) => updateTool(tool.id, { enabled: e.target.checked })}
+                />
+                <input
+                  value={tool.name}
+                  onChange={(e) => updateTool(tool.id, { name: e.target.value })}
+                  placeholder="function_name"
+                  className={`${inputClassName} font-mono`}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onToolsChange(tools.filter(t => t.id !== tool.id))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              {tool.enabled && (
+                <>
+                  <input
+                    value={tool.description}
+                    onChange={(e) => updateTool(tool.id, { description: e.target.value })}
+                    placeholder="What the tool does and when to call it"
+                    className={`${inputClassName} text-xs`}
+                  />
+                  <textarea
+                    value={tool.parameters}
+                    onChange={(e) => updateTool(tool.id, { parameters: e.target.value })}
+                    placeholder="JSON schema of the arguments"
+                    rows={6}
+                    className={`${inputClassName} font-mono text-xs`}
+                  />
+                  {problem && <p className="text-xs text-red-600">{problem}</p>}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <Button variant="outline" size="sm" onClick={addTool}>
+        <Plus className="w-4 h-4 mr-1" />
+        Add Tool
+      </Button>
+      <p className={`text-xs ${usableCount === 0 ? 'text-red-600' : 'text-gray-500'}`}>
+        {usableCount === 0
+          ? 'Enable at least one tool with a valid schema to generate tool-use exchanges.'
+          : 'Parameters use JSON schema. Generated calls that do not match their tool\'s schema are dropped.'}
+      </p>
+    </div>
+  );
+}
@@ -1,16 +1,183 @@
-import { TextMimeType, BinaryMimeType, FineTuningConfig, FineTuningGoalConfig } from '../types';
+import { TextMimeType, BinaryMimeType, FineTuningConfig, FineTuningGoalConfig, Difficulty, QuestionType, PiiDetector, SafetyCategory, VariantType, RefusalKind, ToolDefinition } from '../types';
 
 export const GEMINI_MODEL = 'gemini-2.0-flash-exp';
 
 // Target counts for Q&A generation
 export const QA_PAIR_COUNT_TARGET = 100; // Target number of Q&A pairs for initial generation
 export const SYNTHETIC_QA_TARGET = 75; // Target for synthetic Q&A pairs
+export const SYNTHETIC_MAX_PASSES = 3; // Planning rounds used to reach the synthetic target when batches come back short
 export const INCORRECT_ANSWER_RATIO = 0.08; // 8% incorrect answers (within 5-10% range)
+export const INCORRECT_ANSWER_BATCH_SIZE = 10; // Pairs given a wrong answer per call
+
+// Share of the synthetic target each knowledge gap receives, relative to its priority
+export const KNOWLEDGE_GAP_PRIORITY_WEIGHTS = { high: 3, medium: 2, low: 1 } as const;
 
 // Batch processing settings
 export const QA_GENERATION_BATCH_SIZE = 25; // Max Q&A pairs to request from LLM in a single batch call
 export const MAX_CONTENT_LENGTH_PER_BATCH = 8000; // Max content length per batch
 export const MAX_OUTPUT_TOKENS_PER_BATCH = 8000; // Max output tokens per batch
+export const CHUNK_OVERLAP_LENGTH = 400; // Characters shared between neighbouring chunks
+export const MAX_GENERATION_ROUNDS = 3; // Passes over the chunks before giving up on QA_PAIR_COUNT_TARGET
+export const GENERATION_EXAMPLE_COUNT = 3; // Earlier pairs from a chunk shown when generating from it again
+
+// Multi-turn conversation settings
+export const CONVERSATION_COUNT_TARGET = 40; // Target number of conversations for initial generation
+export const CONVERSATION_BATCH_SIZE = 5; // Conversations requested per call; each one is several pairs long
+export const CONVERSATION_MIN_TURNS = 2;
+export const CONVERSATION_MAX_TURNS = 4; // Default maximum user turns per conversation
+
+// Tool-calling settings
+export const TOOL_CONVERSATION_COUNT_TARGET = 40; // Target number of tool-use exchanges for initial generation
+export const TOOL_CONVERSATION_BATCH_SIZE = 5; // Exchanges requested per call
+export const MAX_TOOL_STEPS = 4; // Rounds of tool calls before the final answer
+export const DEFAULT_TOOLS: ToolDefinition[] = [
+  {
+    id: 'search-documents',
+    name: 'search_documents',
+    description: 'Search the knowledge base and return the passages most relevant to a query',
+    parameters: JSON.stringify({
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'What to search for' },
+        max_results: { type: 'integer', description: 'Number of passages to return' },
+      },
+      required: ['query'],
+    }, null, 2),
+    enabled: true,
+  },
+];
+
+// Cross-model validation settings
+export const VALIDATION_BATCH_SIZE = 10; // Pairs validated per call
+export const VALIDATION_TOKENS_PER_PAIR = 400; // Reply budget per pair, room for issues and a suggested correction
+export const DEFAULT_JUDGE_MODEL = 'anthropic/claude-3-haiku';
+export const SUGGESTED_JUDGE_MODELS = [
+  'anthropic/claude-3-haiku',
+  'openai/gpt-4o-mini',
+  'google/gemini-flash-1.5',
+  'meta-llama/llama-3.1-70b-instruct',
+];
+export const CONSENSUS_PASS_SCORE = 0.7; // Weighted average score a pair needs to pass
+export const JUDGE_DISAGREEMENT_SPREAD = 0.3; // Score gap between judges that flags a pair for review
+
+// Faithfulness verification settings
+export const FAITHFULNESS_THRESHOLD = 0.7; // Default minimum factual accuracy before a pair is rejected
+export const FAITHFULNESS_BATCH_SIZE = 10; // Pairs verified per call, each with its own passage
+export const FAITHFULNESS_CONTEXT_LENGTH = 600; // Characters of context kept on each side of the cited span
+
+// Near-duplicate detection settings
+export const DEDUP_SIMILARITY_THRESHOLD = 0.7; // Estimated Jaccard similarity above which questions count as duplicates
+export const DEDUP_MINHASH_PERMUTATIONS = 128;
+export const DEDUP_SHINGLE_SIZE = 5; // Characters per shingle
+
+// Per-pair classification settings
+export const CLASSIFICATION_BATCH_SIZE = 25; // Pairs classified per call
+export const DIFFICULTY_LEVELS: Difficulty[] = ['easy', 'medium', 'hard'];
+export const QUESTION_TYPES: QuestionType[] = ['factual', 'reasoning', 'procedural', 'comparison', 'definition'];
+
+// PII redaction settings
+export const DEFAULT_PII_DETECTORS: PiiDetector[] = [
+  { id: 'email', name: 'Email addresses', category: 'email', kind: 'regex', enabled: true,
+    pattern: '[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}' },
+  { id: 'phone', name: 'Phone numbers', category: 'phone', kind: 'regex', enabled: true,
+    pattern: '(?:\\+\\d{1,3}[\\s.-]?)?(?:\\(\\d{2,4}\\)[\\s.-]?|\\b\\d{2,4}[\\s.-])\\d{3,4}[\\s.-]?\\d{3,4}\\b' },
+  { id: 'iban', name: 'IBANs', category: 'account', kind: 'regex', enabled: true,
+    pattern: '\\b[A-Z]{2}\\d{2}(?:\\s?[A-Z0-9]{4}){2,7}(?:\\s?[A-Z0-9]{1,4})?\\b' },
+  // Card-length digit runs that pass the Luhn check, so dates, order ids and other long numbers are left alone
+  { id: 'account-number', name: 'Card numbers', category: 'account', kind: 'regex', enabled: true,
+    pattern: '\\b\\d(?:[ -]?\\d){12,18}\\b', checksum: 'luhn' },
+  { id: 'api-key', name: 'API keys and tokens', category: 'secret', kind: 'regex', enabled: true,
+    pattern: '\\b(?:sk|pk|rk)[-_][A-Za-z0-9_-]{16,}|\\bAKIA[0-9A-Z]{16}\\b|\\bgh[pousr]_[A-Za-z0-9]{36}\\b|\\bAIza[0-9A-Za-z_-]{35}\\b' },
+  { id: 'ip-address', name: 'IP addresses', category: 'ip', kind: 'regex', enabled: true,
+    pattern: '\\b(?:\\d{1,3}\\.){3}\\d{1,3}\\b' },
+  // Off until the user lists the names that occur in their sources
+  { id: 'names', name: 'Names', category: 'name', kind: 'dictionary', enabled: false, pattern: '' },
+];
+export const PSEUDONYM_NAMES = [
+  'Alex Morgan', 'Jordan Lee', 'Sam Taylor', 'Casey Brooks', 'Riley Chen',
+  'Jamie Patel', 'Morgan Diaz', 'Taylor Kim', 'Avery Novak', 'Quinn Silva',
+];
+export const REDACTION_PREVIEW_ENTRIES = 20; // Replacements listed before the report is collapsed
+
+// Safety screening settings
+export const SAFETY_BATCH_SIZE = 20; // Pairs screened per moderation call
+export const DEFAULT_SAFETY_CATEGORIES: SafetyCategory[] = [
+  { id: 'violence', name: 'Violence and weapons', enabled: true,
+    description: 'Threats, glorified violence or instructions for weapons and explosives',
+    rules: 'build a bomb\nmake a bomb\npipe bomb\nmass shooting\n/\\bhow to (?:kill|murder|poison)\\b/i' },
+  { id: 'self-harm', name: 'Self-harm', enabled: true,
+    description: 'Encouragement of or instructions for suicide or self-injury',
+    rules: 'kill yourself\nsuicide method\n/\\bhow to (?:self-harm|hurt myself)\\b/i' },
+  { id: 'hate', name: 'Hate and harassment', enabled: true,
+    description: 'Slurs, dehumanizing language or harassment targeting a person or protected group',
+    rules: '' },
+  { id: 'sexual', name: 'Sexual content', enabled: true,
+    description: 'Explicit sexual content, and any sexual content involving minors',
+    rules: '' },
+  { id: 'illegal', name: 'Illegal activity', enabled: true,
+    description: 'Instructions for crimes such as fraud, hacking, drug synthesis or money laundering',
+    rules: 'launder money\nmoney laundering scheme\ncredit card fraud\n/\\bsynthesi[sz]e (?:meth|fentanyl)\\b/i' },
+];
+
+// Language settings
+export const LANGUAGES: Array<{ code: string; name: string }> = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'pl', name: 'Polish' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'uk', name: 'Ukrainian' },
+  { code: 'el', name: 'Greek' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'he', name: 'Hebrew' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'th', name: 'Thai' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+];
+export const LANGUAGE_DETECTION_SAMPLE_LENGTH = 5000; // Characters of each source used to detect its language
+export const TRANSLATION_BATCH_SIZE = 10; // Pairs translated per call
+
+// Unanswerable question settings
+export const UNANSWERABLE_RATIO = 0.1; // Default share of correct pairs that are refusals
+export const UNANSWERABLE_BATCH_SIZE = 10; // Questions requested per call
+export const REFUSAL_KINDS: Record<RefusalKind, string> = {
+  'out-of-scope': 'a question a user of this assistant might plausibly ask that falls outside what the documents are about',
+  'not-covered': 'a question on one of the themes that asks for a detail the documents do not contain',
+  'false-premise': 'a question that assumes something the documents contradict or never state',
+};
+
+// Question variant settings
+export const AUGMENTATION_BATCH_SIZE = 10; // Questions varied per call
+export const VARIANT_STYLES: Record<VariantType, string> = {
+  paraphrase: 'a natural rewording with different vocabulary and sentence structure',
+  typos: 'the same question with realistic typos, misspellings and missing punctuation',
+  casual: 'the same question in casual, informal phrasing as typed into a chat',
+  shortened: 'a terse, search-style query with only the key words',
+};
+
+// Chain-of-thought settings
+export const REASONING_BATCH_SIZE = 10; // Pairs given rationales, or checked, per call
+export const REASONING_ATTEMPTS = 2; // Rationales that fail the consistency check are rewritten until this many tries
+export const REASONING_TAG = 'think'; // Tag wrapped around rationales in tagged exports
+
+// RAG context settings
+export const RAG_DISTRACTOR_COUNT = 3; // Default distractor chunks packed with each question
+export const RAG_MAX_DISTRACTORS = 8;
+export const RAG_INSTRUCTION = 'Answer the question using only the context passages. If they do not contain the answer, say so.';
+
+// Web research settings
+export const RESEARCH_MAX_THEMES = 5; // Themes researched per run
+export const RESEARCH_QUERIES_PER_THEME = 2;
+export const RESEARCH_PASSAGES_PER_QUERY = 3;
+export const RESEARCH_PASSAGES_PER_BATCH = 3; // Passages added as context to each generation batch
+export const RESEARCH_PASSAGE_MAX_LENGTH = 1500;
 
 export const SUPPORTED_TEXT_MIME_TYPES: TextMimeType[] = [
   'text/plain',
@@ -88,20 +255,26 @@ export const FINE_TUNING_GOALS: FineTuningGoalConfig[] = [
     name: 'Topic/Theme Focus',
     description: 'Generate Q&A pairs focused on the main topics and themes within the content',
     icon: '🎯',
-    promptFocus: 'topic and theme understanding'
+    promptFocus: 'topic and theme understanding',
+    questionTypeMix: { definition: 2, comparison: 2, reasoning: 1, factual: 1 },
+    answerStyle: 'Explanatory answers that connect the concept to the surrounding themes'
   },
   {
     id: 'knowledge',
     name: 'Knowledge Base',
     description: 'Create comprehensive Q&A pairs for business knowledge bases and factual content',
     icon: '📚',
-    promptFocus: 'factual knowledge and information retrieval'
+    promptFocus: 'factual knowledge and information retrieval',
+    questionTypeMix: { factual: 3, procedural: 2, definition: 1 },
+    answerStyle: 'Concise, precise answers that state the facts directly, with exact figures and names'
   },
   {
     id: 'style',
     name: 'Writing/Communication Style',
     description: 'Focus on mimicking the writing style, tone, and communication patterns',
     icon: '✍️',
-    promptFocus: 'writing style, tone, and communication patterns'
+    promptFocus: 'writing style, tone, and communication patterns',
+    questionTypeMix: { reasoning: 2, procedural: 1, factual: 1 },
+    answerStyle: 'Answers written in the voice, tone and phrasing of the source content'
   }
 ];
\ No newline at end of file
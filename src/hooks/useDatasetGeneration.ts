@@ -1,125 +1,243 @@
-import { useState, useCallback } from 'react';
-import { geminiService } from '../services/geminiService';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { downloadService } from '../services/downloadService';
-import type { FileData, UrlData, ProcessedData, FineTuningGoal } from '../types';
+import { ChunkingService } from '../services/chunkingService';
+import { checkpointService } from '../services/checkpointService';
+import { pipelineService, DEFAULT_GENERATION_OPTIONS } from '../services/pipelineService';
+import { RunController, RunCancelledError } from '../services/runControlService';
+import { DeduplicationService } from '../services/deduplicationService';
+import { RedactionService } from '../services/redactionService';
+import { LanguageService } from '../services/languageService';
+import { SafetyService } from '../services/safetyService';
+import { RagService } from '../services/ragService';
+import type {
+  FileData,
+  UrlData,
+  ProcessedData,
+  FineTuningGoalConfig,
+  GenerationOptions,
+  SourceContent,
+  RunCheckpoint,
+  PipelineStageTiming,
+  RedactionReport,
+  ExportOptions,
+  QAPair,
+} from '../types';
+
+export function collectSources(files: FileData[], urls: UrlData[]): SourceContent[] {
+  return [
+    ...files.map(f => ({ id: f.id, type: 'file' as const, name: f.file.name, content: f.cleanedText || f.rawContent })),
+    ...urls.map(u => ({ id: u.id, type: 'url' as const, url: u.url, content: u.rawContent }))
+  ];
+}
 
 export function useDatasetGeneration() {
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isCancelled, setIsCancelled] = useState(false);
   const [processedData, setProcessedData] = useState<ProcessedData | null>(null);
+  const [sources, setSources] = useState<SourceContent[]>([]);
   const [currentStep, setCurrentStep] = useState('');
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [stageTimeline, setStageTimeline] = useState<PipelineStageTiming[]>([]);
+  const [estimatedTimeRemaining, setEstimatedTimeRemaining] = useState<number | undefined>();
+  const [elapsedTime, setElapsedTime] = useState(0);
+  const [resumableRun, setResumableRun] = useState<RunCheckpoint | null>(null);
+  const controllerRef = useRef<RunController | null>(null);
+  const runKeyRef = useRef<string | null>(null);
+  const optionsRef = useRef<GenerationOptions>(DEFAULT_GENERATION_OPTIONS); // Options of the latest run
+
+  // Surface a run that was interrupted by a refresh or crash
+  useEffect(() => {
+    checkpointService.list().then(checkpoints => setResumableRun(checkpoints[0] ?? null));
+  }, []);
 
   const generateDataset = useCallback(async (
     files: FileData[],
     urls: UrlData[],
-    fineTuningGoal: FineTuningGoal
+    fineTuningGoal: FineTuningGoalConfig,
+    options: GenerationOptions = DEFAULT_GENERATION_OPTIONS
   ) => {
+    const controller = new RunController();
+    controllerRef.current = controller;
+    optionsRef.current = options;
+
     setIsProcessing(true);
+    setIsPaused(false);
+    setIsCancelled(false);
     setError(null);
     setProgress(0);
+    setStageTimeline([]);
+    setEstimatedTimeRemaining(undefined);
+    setElapsedTime(0);
     setCurrentStep('Initializing...');
 
     try {
-      // Step 1: Process content and identify themes
-      setCurrentStep('Processing content and identifying themes...');
-      setProgress(10);
-
-      const allContent = [
-        ...files.map(f => ({ type: 'file' as const, name: f.file.name, content: f.cleanedText || f.rawContent })),
-        ...urls.map(u => ({ type: 'url' as const, url: u.url, content: u.rawContent }))
-      ];
-
-      const themes = await geminiService.identifyThemes(allContent, fineTuningGoal);
-      setProgress(25);
-
-      // Step 2: Perform web research for knowledge gaps
-      setCurrentStep('Performing web research for knowledge gaps...');
-      // const researchData = await geminiService.performWebResearch(themes, fineTuningGoal);
-      setProgress(40);
-
-      // Step 3: Generate Q&A pairs from original content
-      setCurrentStep('Generating Q&A pairs from content...');
-      let qaPairs: any[] = [];
-      try {
-        qaPairs = await geminiService.generateQAPairs(allContent, themes, fineTuningGoal);
-      } catch (qaError) {
-        console.error('Error generating Q&A pairs:', qaError);
-        throw new Error(`Failed to generate Q&A pairs: ${qaError instanceof Error ? qaError.message : 'Unknown error'}`);
+      let allContent = collectSources(files, urls);
+      let redactionReport: RedactionReport | undefined;
+      // Redact before anything is chunked, checkpointed or sent to a model
+      if (options.redaction.enabled) {
+        setCurrentStep('Redacting personal data...');
+        ({ sources: allContent, report: redactionReport } = RedactionService.redactSources(allContent, options.redaction));
       }
-      setProgress(60);
-
-      // Step 4: Generate synthetic Q&A pairs
-      setCurrentStep('Generating synthetic Q&A pairs...');
-      await geminiService.generateQAPairs(
-        [],
-        themes,
-        fineTuningGoal
-      );
-      setProgress(75);
-
-      // Step 5: Validate all Q&A pairs
-      setCurrentStep('Validating Q&A pairs...');
-      const allPairs = [...qaPairs];
-      await geminiService.validateQAPairs(allPairs);
-      setProgress(85);
-
-      // Step 6: Generate incorrect answers for training
-      setCurrentStep('Generating incorrect answers...');
-      await geminiService.generateQAPairs([], themes, fineTuningGoal);
-      setProgress(95);
-
-      // Step 7: Compile final dataset
-      setCurrentStep('Compiling final dataset...');
-      const finalData: ProcessedData = {
-        qaPairs: qaPairs.map(pair => ({
-          user: pair.question,
-          model: pair.answer,
-          isCorrect: true,
-          source: 'original'
-        })),
-        combinedCleanedText: '',
-        sourceFileCount: files.length,
-        sourceUrlCount: urls.length,
-        identifiedThemes: themes,
-        correctAnswerCount: qaPairs.length,
-        incorrectAnswerCount: 0,
+      allContent = allContent.map(source => ({ ...source, language: LanguageService.detect(source.content) }));
+      const chunks = ChunkingService.chunkSources(allContent);
+      setSources(allContent);
+
+      const runKey = await checkpointService.createRunKey(allContent, fineTuningGoal, options);
+      runKeyRef.current = runKey;
+      const checkpoint: RunCheckpoint = await checkpointService.load(runKey) ?? {
+        runKey,
+        sourceLabels: allContent.map(source => source.name || source.url || source.id),
+        goal: fineTuningGoal,
+        options,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        stages: {},
+        batches: {},
       };
+      if (Object.keys(checkpoint.stages).length > 0 || Object.keys(checkpoint.batches).length > 0) {
+        setCurrentStep('Resuming from saved checkpoint...');
+      }
+      setResumableRun(null);
+
+      const finalData = await pipelineService.run(
+        { sources: allContent, chunks },
+        fineTuningGoal,
+        options,
+        controller,
+        checkpoint,
+        {
+          onStatus: setCurrentStep,
+          onProgress: setProgress,
+          onTimeline: setStageTimeline,
+          onEstimate: (remainingSeconds, elapsedSeconds) => {
+            setEstimatedTimeRemaining(remainingSeconds);
+            setElapsedTime(elapsedSeconds);
+          },
+        }
+      );
 
-      setProcessedData(finalData);
+      setProcessedData({ ...finalData, redactionReport });
       setProgress(100);
       setCurrentStep('Dataset generation complete!');
+      await checkpointService.clear(runKey);
     } catch (err) {
+      if (err instanceof RunCancelledError) {
+        // Finished stages stay checkpointed, so generating again with the same sources resumes
+        setIsCancelled(true);
+        setCurrentStep('Generation cancelled');
+        return;
+      }
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred';
       setError(errorMessage);
       console.error('Dataset generation error:', err);
     } finally {
+      controllerRef.current = null;
       setIsProcessing(false);
+      setIsPaused(false);
     }
   }, []);
 
-  const downloadDataset = useCallback(() => {
+  const pauseGeneration = useCallback(() => {
+    controllerRef.current?.pause();
+    setIsPaused(true);
+  }, []);
+
+  const resumeGeneration = useCallback(() => {
+    controllerRef.current?.resume();
+    setIsPaused(false);
+  }, []);
+
+  const cancelGeneration = useCallback(() => {
+    controllerRef.current?.cancel();
+  }, []);
+
+  const discardResumableRun = useCallback(async () => {
+    if (resumableRun) {
+      await checkpointService.clear(resumableRun.runKey);
+      setResumableRun(null);
+    }
+  }, [resumableRun]);
+
+  const selectDuplicateRepresentative = useCallback((clusterId: string, pairId: string) => {
+    setProcessedData(prev => {
+      if (!prev?.duplicateClusters) return prev;
+      const { pairs, clusters } = DeduplicationService.selectRepresentative(prev.qaPairs, prev.duplicateClusters, clusterId, pairId);
+      const promoted = pairs.find(pair => pair.id === pairId);
+      if (!promoted || prev.qaPairs.includes(promoted)) return prev;
+
+      // Redo the later-stage work that depends on the new pair's own text
+      const { safety, rag } = optionsRef.current;
+      const safetyFlags = SafetyService.screen(promoted, safety.categories.filter(category => category.enabled));
+      const context = rag.enabled && promoted.isCorrect
+        ? RagService.packContext(promoted, ChunkingService.chunkSources(sources), rag)
+        : undefined;
+      const refreshed: QAPair = {
+        ...promoted,
+        ...(safetyFlags.length > 0 && { safetyFlags }),
+        ...(context && { context }),
+      };
+
+      if (safetyFlags.length > 0 && safety.action === 'drop') {
+        // Same as the safety stage: the pair and its incorrect answers leave the dataset
+        const isDropped = (pair: QAPair) => pair.id === pairId || pair.correctPairId === pairId;
+        const dropped = pairs.filter(isDropped).map(pair => (pair.id === pairId ? refreshed : pair));
+        return {
+          ...prev,
+          qaPairs: pairs.filter(pair => !isDropped(pair)),
+          duplicateClusters: clusters,
+          unsafePairs: [...(prev.unsafePairs || []), ...dropped],
+          droppedUnsafePairCount: (prev.droppedUnsafePairCount || 0) + dropped.length,
+        };
+      }
+      return { ...prev, qaPairs: pairs.map(pair => (pair.id === pairId ? refreshed : pair)), duplicateClusters: clusters };
+    });
+  }, [sources]);
+
+  const downloadDataset = useCallback((exportOptions?: ExportOptions) => {
     if (processedData) {
-      downloadService.downloadDataset(processedData);
+      downloadService.downloadDataset(processedData, exportOptions);
     }
   }, [processedData]);
 
   const resetGeneration = useCallback(() => {
+    if (runKeyRef.current) {
+      checkpointService.clear(runKeyRef.current);
+      runKeyRef.current = null;
+    }
     setProcessedData(null);
+    setSources([]);
     setCurrentStep('');
     setProgress(0);
+    setStageTimeline([]);
+    setEstimatedTimeRemaining(undefined);
+    setElapsedTime(0);
     setError(null);
     setIsProcessing(false);
+    setIsCancelled(false);
   }, []);
 
   return {
     isProcessing,
+    isPaused,
+    isCancelled,
     processedData,
+    sources,
     currentStep,
     progress,
+    stageTimeline,
+    estimatedTimeRemaining,
+    elapsedTime,
     error,
+    resumableRun,
     generateDataset,
+    pauseGeneration,
+    resumeGeneration,
+    cancelGeneration,
+    discardResumableRun,
+    selectDuplicateRepresentative,
     downloadDataset,
     resetGeneration
   };
-}
\ No newline at end of file
+}
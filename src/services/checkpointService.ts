@@ -0,0 +1,93 @@
+import { promptService } from './promptService';
+import type { RunCheckpoint, SourceContent, FineTuningGoalConfig, GenerationOptions } from '../types';
+
+class CheckpointService {
+  private dbName = 'fine-format';
+  private storeName = 'checkpoints';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (!('indexedDB' in window)) {
+          reject(new Error('IndexedDB is not available in this browser'));
+          return;
+        }
+
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName, { keyPath: 'runKey' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Derives a run key from the source contents, goal and options, so re-adding
+   * the same sources after a refresh finds the earlier run.
+   */
+  async createRunKey(sources: SourceContent[], goal: FineTuningGoalConfig, options: GenerationOptions): Promise<string> {
+    const fingerprint = JSON.stringify({
+      goal,
+      options,
+      // Editing a prompt template must not resume batches produced by the old wording
+      templates: promptService.listVersions(),
+      sources: sources.map(source => [source.type, source.name || source.url, source.content]),
+    });
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(fingerprint));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  async load(runKey: string): Promise<RunCheckpoint | null> {
+    try {
+      return (await this.withStore<RunCheckpoint | undefined>('readonly', store => store.get(runKey))) ?? null;
+    } catch (error) {
+      console.warn('[CHECKPOINT] Failed to load checkpoint:', error);
+      return null;
+    }
+  }
+
+  async list(): Promise<RunCheckpoint[]> {
+    try {
+      const checkpoints = await this.withStore<RunCheckpoint[]>('readonly', store => store.getAll());
+      return checkpoints.sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (error) {
+      console.warn('[CHECKPOINT] Failed to list checkpoints:', error);
+      return [];
+    }
+  }
+
+  async save(checkpoint: RunCheckpoint): Promise<void> {
+    try {
+      await this.withStore('readwrite', store => store.put({ ...checkpoint, updatedAt: Date.now() }));
+    } catch (error) {
+      console.warn('[CHECKPOINT] Failed to save checkpoint:', error);
+    }
+  }
+
+  async clear(runKey: string): Promise<void> {
+    try {
+      await this.withStore('readwrite', store => store.delete(runKey));
+    } catch (error) {
+      console.warn('[CHECKPOINT] Failed to clear checkpoint:', error);
+    }
+  }
+}
+
+export const checkpointService = new CheckpointService();
@@ -0,0 +1,265 @@
+import type { SourceContent, ContentChunk, SourceAttribution } from '../types';
+import { MAX_CONTENT_LENGTH_PER_BATCH, CHUNK_OVERLAP_LENGTH } from '../constants';
+
+interface TextSegment {
+  start: number;
+  end: number;
+  isHeading: boolean;
+}
+
+export class ChunkingService {
+  private static readonly MARKDOWN_HEADING = /^#{1,6}\s+\S/;
+  private static readonly SENTENCE_BOUNDARY = /[.!?]["')\]]?\s+/g;
+
+  public static chunkSources(
+    sources: SourceContent[],
+    maxLength = MAX_CONTENT_LENGTH_PER_BATCH,
+    overlap = CHUNK_OVERLAP_LENGTH
+  ): ContentChunk[] {
+    return sources.flatMap(source => this.chunkSource(source, maxLength, overlap));
+  }
+
+  public static chunkSource(
+    source: SourceContent,
+    maxLength = MAX_CONTENT_LENGTH_PER_BATCH,
+    overlap = CHUNK_OVERLAP_LENGTH
+  ): ContentChunk[] {
+    // Overlap must leave room for new content in every chunk
+    const effectiveOverlap = Math.max(0, Math.min(overlap, Math.floor(maxLength / 2)));
+    const segments = this.segmentText(source.content, maxLength - effectiveOverlap);
+    const chunks: ContentChunk[] = [];
+    const label = source.type === 'file' ? source.name || source.id : source.url || source.id;
+
+    let i = 0;
+    while (i < segments.length) {
+      const start = segments[i].start;
+      let j = i;
+      while (j < segments.length && segments[j].end - start <= maxLength) {
+        // Prefer to break before a heading once the chunk is reasonably full
+        if (j > i && segments[j].isHeading && segments[j].start - start >= maxLength / 2) break;
+        j++;
+      }
+      if (j === i) j = i + 1;
+
+      const end = segments[j - 1].end;
+      chunks.push({
+        sourceId: source.id,
+        sourceLabel: label,
+        index: chunks.length,
+        text: source.content.slice(start, end),
+        start,
+        end,
+        language: source.language,
+      });
+
+      if (j >= segments.length) break;
+
+      // Step back over trailing segments that fit inside the overlap window
+      let k = j;
+      while (k - 1 > i && end - segments[k - 1].start <= effectiveOverlap) k--;
+      i = k;
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Builds a single excerpt that samples every chunk proportionally,
+   * so prompts that need an overview still see the whole document.
+   */
+  public static buildOverview(chunks: ContentChunk[], maxLength = MAX_CONTENT_LENGTH_PER_BATCH): string {
+    if (chunks.length === 0) return '';
+
+    const perChunk = Math.max(200, Math.floor(maxLength / chunks.length));
+    const selected = this.selectEvenly(chunks, Math.max(1, Math.floor(maxLength / perChunk)));
+
+    return selected
+      .map(chunk => `[${chunk.sourceLabel} #${chunk.index + 1}]\n${chunk.text.substring(0, perChunk)}`)
+      .join('\n\n');
+  }
+
+  /**
+   * Picks `count` chunks spread evenly across the list. `offset` shifts the
+   * selection so repeated rounds visit different chunks.
+   */
+  public static selectEvenly<T>(items: T[], count: number, offset = 0): T[] {
+    if (count >= items.length) return [...items];
+    if (count <= 0) return [];
+
+    const step = items.length / count;
+    return Array.from({ length: count }, (_, i) =>
+      items[(Math.floor(i * step) + offset) % items.length]
+    );
+  }
+
+  /**
+   * Returns the chunks sharing the most terms with `query`, packed up to `maxLength` characters.
+   */
+  public static findRelevant(chunks: ContentChunk[], query: string, maxLength = MAX_CONTENT_LENGTH_PER_BATCH): ContentChunk[] {
+    const terms = new Set(this.tokenize(query));
+    if (terms.size === 0) return this.selectEvenly(chunks, 1);
+
+    const scored = chunks
+      .map(chunk => ({
+        chunk,
+        score: this.countTermOverlap(chunk.text, terms),
+      }))
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    const relevant: ContentChunk[] = [];
+    let total = 0;
+    for (const { chunk } of scored) {
+      if (total + chunk.text.length > maxLength && relevant.length > 0) break;
+      relevant.push(chunk);
+      total += chunk.text.length;
+    }
+
+    return relevant.length > 0 ? relevant : this.selectEvenly(chunks, 1);
+  }
+
+  /**
+   * Attributes `evidence` to the chunk and character span that support it:
+   * a verbatim match (ignoring case and whitespace) when the model quoted the
+   * content, otherwise the sentence sharing the most terms. Offsets point into
+   * the source content, not the chunk.
+   */
+  public static attribute(chunks: ContentChunk[], evidence: string): SourceAttribution | undefined {
+    if (chunks.length === 0) return undefined;
+
+    const words = evidence.trim().split(/\s+/).filter(Boolean).slice(0, 60);
+    const pattern = words.length > 0
+      ? new RegExp(words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+'), 'iu')
+      : null;
+
+    for (const chunk of chunks) {
+      const match = pattern?.exec(chunk.text);
+      if (match) {
+        return this.toAttribution(chunk, match.index, match.index + match[0].length);
+      }
+    }
+
+    const best = chunks
+      .flatMap(chunk => this.sentenceSpans(chunk.text).map(span => ({
+        chunk,
+        span,
+        score: this.termOverlap(chunk.text.slice(span.start, span.end), evidence),
+      })))
+      .sort((a, b) => b.score - a.score)[0];
+
+    return best && best.score > 0
+      ? this.toAttribution(best.chunk, best.span.start, best.span.end)
+      : this.toAttribution(chunks[0], 0, chunks[0].text.length);
+  }
+
+  private static toAttribution(chunk: ContentChunk, start: number, end: number): SourceAttribution {
+    return {
+      sourceId: chunk.sourceId,
+      sourceLabel: chunk.sourceLabel,
+      chunkIndex: chunk.index,
+      start: chunk.start + start,
+      end: chunk.start + end,
+    };
+  }
+
+  private static sentenceSpans(text: string): Array<{ start: number; end: number }> {
+    const spans: Array<{ start: number; end: number }> = [];
+    const boundary = new RegExp(this.SENTENCE_BOUNDARY.source, 'g');
+    let start = 0;
+    let match: RegExpExecArray | null;
+    while ((match = boundary.exec(text)) !== null) {
+      spans.push({ start, end: match.index + match[0].trimEnd().length });
+      start = match.index + match[0].length;
+    }
+    if (start < text.length) spans.push({ start, end: text.length });
+    return spans;
+  }
+
+  /** Number of words in `text` that also appear in `query`; a cheap lexical relevance score. */
+  public static termOverlap(text: string, query: string): number {
+    return this.countTermOverlap(text, new Set(this.tokenize(query)));
+  }
+
+  private static countTermOverlap(text: string, terms: Set<string>): number {
+    return this.tokenize(text).filter(token => terms.has(token)).length;
+  }
+
+  private static tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(token => token.length > 3);
+  }
+
+  /**
+   * Splits text into paragraph and heading segments no longer than `maxSegmentLength`.
+   * Segment offsets always point into the original text.
+   */
+  private static segmentText(text: string, maxSegmentLength: number): TextSegment[] {
+    const segments: TextSegment[] = [];
+    const paragraphBreak = /\n\s*\n/g;
+    let cursor = 0;
+    let match: RegExpExecArray | null;
+
+    const pushParagraph = (start: number, end: number) => {
+      // Trim surrounding whitespace without losing the original offsets
+      while (start < end && /\s/.test(text[start])) start++;
+      while (end > start && /\s/.test(text[end - 1])) end--;
+      if (start >= end) return;
+
+      const paragraph = text.slice(start, end);
+      const isHeading = this.isHeading(paragraph);
+
+      if (end - start <= maxSegmentLength) {
+        segments.push({ start, end, isHeading });
+      } else {
+        this.splitLongParagraph(text, start, end, maxSegmentLength).forEach(segment => segments.push(segment));
+      }
+    };
+
+    while ((match = paragraphBreak.exec(text)) !== null) {
+      pushParagraph(cursor, match.index);
+      cursor = match.index + match[0].length;
+    }
+    pushParagraph(cursor, text.length);
+
+    return segments;
+  }
+
+  /**
+   * Breaks an oversized paragraph into sentence segments, so chunks can pack
+   * and overlap on sentence boundaries. Sentences longer than the limit are hard-split.
+   */
+  private static splitLongParagraph(text: string, start: number, end: number, maxSegmentLength: number): TextSegment[] {
+    const pieces: TextSegment[] = [];
+    const paragraph = text.slice(start, end);
+    const boundaries = [0];
+
+    this.SENTENCE_BOUNDARY.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = this.SENTENCE_BOUNDARY.exec(paragraph)) !== null) {
+      boundaries.push(match.index + match[0].length);
+    }
+    if (boundaries[boundaries.length - 1] < paragraph.length) {
+      boundaries.push(paragraph.length);
+    }
+
+    for (let b = 1; b < boundaries.length; b++) {
+      for (let pieceStart = boundaries[b - 1]; pieceStart < boundaries[b]; pieceStart += maxSegmentLength) {
+        pieces.push({
+          start: start + pieceStart,
+          end: start + Math.min(boundaries[b], pieceStart + maxSegmentLength),
+          isHeading: false,
+        });
+      }
+    }
+
+    return pieces;
+  }
+
+  private static isHeading(paragraph: string): boolean {
+    if (this.MARKDOWN_HEADING.test(paragraph)) return true;
+    // Short single-line paragraphs without closing punctuation read as plain-text headings
+    return !paragraph.includes('\n') && paragraph.length <= 80 && !/[.!?:;,]$/.test(paragraph);
+  }
+}
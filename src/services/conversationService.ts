@@ -0,0 +1,71 @@
+import type { QAPair, ConversationQAPair, ConversationTurn, ConversationIntent, StandardFormatMessage } from '../types';
+import { CONVERSATION_MIN_TURNS } from '../constants';
+
+const INTENTS: ConversationIntent[] = ['opening', 'follow-up', 'clarification', 'topic-shift'];
+
+export class ConversationService {
+  public static isConversation(pair: QAPair): pair is ConversationQAPair {
+    return Array.isArray((pair as ConversationQAPair).turns);
+  }
+
+  /** The full message history of a pair; single-turn pairs become one user/assistant exchange. */
+  public static toMessages(pair: QAPair): StandardFormatMessage[] {
+    if (this.isConversation(pair)) {
+      return pair.turns.map(({ role, content }) => ({ role, content }));
+    }
+    return [
+      { role: 'user', content: pair.user },
+      { role: 'assistant', content: pair.model },
+    ];
+  }
+
+  /** The turns before the final question, as a prompt prefix; empty for single-turn pairs. */
+  public static describeHistory(pair: QAPair): string {
+    if (!this.isConversation(pair)) return '';
+    const history = pair.turns.slice(0, -2).map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`);
+    return `Earlier conversation:\n${history.join('\n')}\n`;
+  }
+
+  /** Every user turn joined together, for comparing conversations by what was asked. */
+  public static userText(pair: QAPair): string {
+    if (this.isConversation(pair)) {
+      return pair.turns.filter(turn => turn.role === 'user').map(turn => turn.content).join(' ');
+    }
+    return pair.user;
+  }
+
+  /**
+   * Normalizes model output into alternating user/assistant turns that start
+   * with the user and end with an answer. Returns null when fewer than
+   * CONVERSATION_MIN_TURNS exchanges survive.
+   */
+  public static parseTurns(raw: unknown, maxTurns: number): ConversationTurn[] | null {
+    if (!Array.isArray(raw)) return null;
+
+    const turns: ConversationTurn[] = [];
+    for (const entry of raw) {
+      const content = typeof entry?.content === 'string' ? entry.content.trim() : '';
+      const role = entry?.role === 'user' ? 'user' : ['assistant', 'model'].includes(entry?.role) ? 'assistant' : null;
+      const expected = turns.length % 2 === 0 ? 'user' : 'assistant';
+      if (!content || role !== expected) break;
+
+      turns.push(role === 'user'
+        ? { role, content, intent: INTENTS.includes(entry.intent) ? entry.intent : turns.length === 0 ? 'opening' : 'follow-up' }
+        : { role, content });
+    }
+
+    const exchanges = Math.min(Math.floor(turns.length / 2), maxTurns);
+    return exchanges >= CONVERSATION_MIN_TURNS ? turns.slice(0, exchanges * 2) : null;
+  }
+
+  /** Replaces the final question of a conversation, keeping its history and answer. */
+  public static withFinalQuestion(turns: ConversationTurn[], question: string): ConversationTurn[] {
+    const finalQuestion = turns[turns.length - 2];
+    return [...turns.slice(0, -2), { ...finalQuestion, content: question }, turns[turns.length - 1]];
+  }
+
+  /** Replaces the final answer of a conversation, keeping the rest of its history. */
+  public static withFinalAnswer(turns: ConversationTurn[], answer: string): ConversationTurn[] {
+    return [...turns.slice(0, -1), { role: 'assistant', content: answer }];
+  }
+}
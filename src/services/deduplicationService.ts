@@ -0,0 +1,178 @@
+import type { QAPair, DuplicateCluster } from '../types';
+import { DEDUP_MINHASH_PERMUTATIONS, DEDUP_SHINGLE_SIZE } from '../constants';
+import { ConversationService } from './conversationService';
+
+export class DeduplicationService {
+  /**
+   * Groups near-duplicate pairs by estimated Jaccard similarity of their
+   * question shingles (all user turns, for conversations), keeps the
+   * best-scoring pair of each cluster and returns the remaining pairs plus
+   * the clusters for review.
+   * Only correct pairs are compared; incorrect answers pass through untouched.
+   */
+  public static deduplicate(pairs: QAPair[], threshold: number): { pairs: QAPair[]; clusters: DuplicateCluster[] } {
+    const candidates = pairs.filter(pair => pair.isCorrect);
+    const seeds = this.createSeeds(DEDUP_MINHASH_PERMUTATIONS);
+    const signatures = candidates.map(pair => this.signature(this.shingle(ConversationService.userText(pair)), seeds));
+
+    // Union-find over every pair of candidates above the threshold
+    const parent = candidates.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const similarities = new Map<number, number[]>();
+
+    for (let i = 0; i < candidates.length; i++) {
+      for (let j = i + 1; j < candidates.length; j++) {
+        const similarity = this.estimateSimilarity(signatures[i], signatures[j]);
+        if (similarity >= threshold) {
+          parent[find(j)] = find(i);
+          similarities.set(i, [...(similarities.get(i) || []), similarity]);
+        }
+      }
+    }
+
+    const groups = new Map<number, number[]>();
+    candidates.forEach((_, i) => {
+      const root = find(i);
+      groups.set(root, [...(groups.get(root) || []), i]);
+    });
+
+    const removedIds = new Set<string>();
+    const clusters: DuplicateCluster[] = [];
+
+    groups.forEach(members => {
+      if (members.length < 2) return;
+
+      const clusterPairs = members.map(i => candidates[i]);
+      const kept = [...clusterPairs].sort((a, b) => this.score(b) - this.score(a))[0];
+      const memberSimilarities = members.flatMap(i => similarities.get(i) || []);
+
+      clusterPairs.filter(pair => pair.id !== kept.id).forEach(pair => removedIds.add(pair.id));
+      clusters.push({
+        id: `cluster-${clusters.length + 1}`,
+        keptPairId: kept.id,
+        pairs: clusterPairs,
+        similarity: memberSimilarities.reduce((sum, value) => sum + value, 0) / memberSimilarities.length,
+      });
+    });
+
+    return {
+      pairs: pairs.filter(pair => !removedIds.has(pair.id)),
+      clusters,
+    };
+  }
+
+  /**
+   * Swaps the kept pair of a cluster, preserving its position in the dataset.
+   * Stages after deduplication only saw the kept pair, so the new one inherits
+   * its classification tags, and incorrect answers, variants and translations
+   * that pointed at it move to the new one. Reasoning, safety flags and RAG
+   * context belong to the old text and are cleared for the caller to redo.
+   * The cluster keeps the old pair as it is now, with its later-stage data.
+   */
+  public static selectRepresentative(
+    pairs: QAPair[],
+    clusters: DuplicateCluster[],
+    clusterId: string,
+    pairId: string
+  ): { pairs: QAPair[]; clusters: DuplicateCluster[] } {
+    const cluster = clusters.find(c => c.id === clusterId);
+    const replacement = cluster?.pairs.find(pair => pair.id === pairId);
+    const current = cluster && pairs.find(pair => pair.id === cluster.keptPairId);
+    if (!cluster || !replacement || !current || cluster.keptPairId === pairId) {
+      return { pairs, clusters };
+    }
+
+    const promoted: QAPair = {
+      ...replacement,
+      difficulty: current.difficulty,
+      theme: current.theme,
+      questionType: current.questionType,
+      reasoning: undefined,
+      reasoningCheck: undefined,
+      safetyFlags: undefined,
+      context: undefined,
+    };
+    const relink = (id: string | undefined) => (id === current.id ? promoted.id : id);
+
+    return {
+      pairs: pairs.map(pair => {
+        if (pair.id === current.id) return promoted;
+        if (![pair.correctPairId, pair.parentPairId, pair.translationOf].includes(current.id)) return pair;
+        return {
+          ...pair,
+          correctPairId: relink(pair.correctPairId),
+          parentPairId: relink(pair.parentPairId),
+          translationOf: relink(pair.translationOf),
+        };
+      }),
+      clusters: clusters.map(c => (c.id === clusterId
+        ? { ...c, keptPairId: pairId, pairs: c.pairs.map(pair => (pair.id === current.id ? current : pair)) }
+        : c)),
+    };
+  }
+
+  private static score(pair: QAPair): number {
+    // Prefer validated scores, then generation confidence, then the more complete answer
+    return (pair.validationConfidence ?? pair.confidence ?? 0) + pair.model.length / 1e6;
+  }
+
+  private static shingle(text: string): Set<string> {
+    const normalized = text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+    const shingles = new Set<string>();
+    if (normalized.length <= DEDUP_SHINGLE_SIZE) {
+      shingles.add(normalized);
+      return shingles;
+    }
+    for (let i = 0; i <= normalized.length - DEDUP_SHINGLE_SIZE; i++) {
+      shingles.add(normalized.substring(i, i + DEDUP_SHINGLE_SIZE));
+    }
+    return shingles;
+  }
+
+  private static createSeeds(count: number): number[] {
+    // Fixed seeds keep signatures stable across runs
+    let state = 0x9e3779b9;
+    return Array.from({ length: count }, () => {
+      state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+      return state;
+    });
+  }
+
+  private static signature(shingles: Set<string>, seeds: number[]): number[] {
+    const hashes = [...shingles].map(shingle => this.hashString(shingle));
+    return seeds.map(seed => {
+      let min = Infinity;
+      for (const hash of hashes) {
+        const value = this.mix(hash ^ seed);
+        if (value < min) min = value;
+      }
+      return min;
+    });
+  }
+
+  // murmur3 finalizer: one seeded hash function per MinHash permutation
+  private static mix(value: number): number {
+    let h = value;
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return (h ^ (h >>> 16)) >>> 0;
+  }
+
+  private static estimateSimilarity(a: number[], b: number[]): number {
+    let matches = 0;
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] === b[i]) matches++;
+    }
+    return matches / a.length;
+  }
+
+  // FNV-1a, 32-bit
+  private static hashString(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash;
+  }
+}
@@ -1,11 +1,31 @@
-import type { ProcessedData } from '../types';
+import type { ProcessedData, StandardFormatQAPair, QAPair, ExportOptions, ReasoningFormat } from '../types';
+import { REASONING_TAG } from '../constants';
+import { ConversationService } from './conversationService';
+import { UNDETERMINED_LANGUAGE } from './languageService';
+import { RagService } from './ragService';
+import { ToolService } from './toolService';
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  languages: [],
+  balanceLanguages: false,
+  testSplit: 0,
+  contextPlacement: 'system',
+  reasoningFormat: 'tagged',
+  includeRejected: false,
+};
 
 class DownloadService {
-  downloadDataset(data: ProcessedData) {
+  downloadDataset(processedData: ProcessedData, options: ExportOptions = DEFAULT_EXPORT_OPTIONS) {
+    const data = { ...processedData, qaPairs: this.selectPairs(processedData.qaPairs, options) };
+    // Incorrect answers only belong on the rejected side of preference pairs, never in SFT data
+    const correct = { ...data, qaPairs: data.qaPairs.filter(pair => pair.isCorrect) };
+    // Training formats carry rationales in the answer; CSV and JSON keep them in their own field
+    const answered = { ...correct, qaPairs: correct.qaPairs.map(pair => this.withReasoning(pair, options.reasoningFormat)) };
+
     // Create different format options
     const formats = {
-      jsonl: this.createJSONL(data),
-      csv: this.createCSV(data),
+      jsonl: this.createJSONL(answered),
+      csv: this.createCSV(correct),
       json: this.createJSON(data)
     };
 
@@ -13,21 +33,150 @@ class DownloadService {
     Object.entries(formats).forEach(([format, content]) => {
       this.downloadFile(content, `dataset.${format}`, this.getMimeType(format));
     });
+
+    if (options.testSplit > 0) {
+      const { train, test } = this.splitByFamily(answered.qaPairs, options.testSplit);
+      this.downloadFile(this.createJSONL({ ...answered, qaPairs: train }), 'dataset.train.jsonl', this.getMimeType('jsonl'));
+      this.downloadFile(this.createJSONL({ ...answered, qaPairs: test }), 'dataset.test.jsonl', this.getMimeType('jsonl'));
+    }
+
+    // Preference (DPO) pairs only exist when incorrect answers were generated
+    if (data.qaPairs.some(pair => !pair.isCorrect)) {
+      this.downloadFile(this.createPreferenceJSONL(data), 'dataset.preference.jsonl', this.getMimeType('jsonl'));
+    }
+
+    // RAG formats only exist when the context stage packed retrieved passages
+    if (data.qaPairs.some(pair => pair.context)) {
+      this.downloadFile(this.createRagJSONL(answered, options), 'dataset.rag.jsonl', this.getMimeType('jsonl'));
+      this.downloadFile(this.createRagInstructionJSONL(answered, options), 'dataset.rag.instruct.jsonl', this.getMimeType('jsonl'));
+    }
+
+    // Tool formats only exist for tool-calling runs
+    if (data.tools && data.qaPairs.some(pair => ToolService.isToolPair(pair))) {
+      this.downloadFile(this.createOpenAIToolsJSONL(answered), 'dataset.tools.openai.jsonl', this.getMimeType('jsonl'));
+      this.downloadFile(this.createGenericToolsJSONL(answered), 'dataset.tools.jsonl', this.getMimeType('jsonl'));
+    }
+  }
+
+  /** Puts a pair's rationale ahead of its final answer, plain or wrapped in a tag. */
+  private withReasoning(pair: QAPair, format: ReasoningFormat): QAPair {
+    if (format === 'none' || !pair.reasoning) return pair;
+    const model = format === 'tagged'
+      ? `<${REASONING_TAG}>\n${pair.reasoning}\n</${REASONING_TAG}>\n\n${pair.model}`
+      : `${pair.reasoning}\n\n${pair.model}`;
+    return {
+      ...pair,
+      model,
+      ...(ConversationService.isConversation(pair) && { turns: ConversationService.withFinalAnswer(pair.turns, model) }),
+    };
+  }
+
+  /**
+   * Leaves out pairs that were rejected or could not be validated unless asked
+   * to keep them, applies the language filter, then optionally caps every
+   * language at the size of the smallest one. Incorrect answers follow their
+   * correct pair.
+   */
+  private selectPairs(pairs: QAPair[], options: ExportOptions): QAPair[] {
+    const isRejected = (pair: QAPair) => pair.validationStatus === 'rejected' || pair.validationStatus === 'failed';
+    const rejectedIds = new Set(pairs.filter(isRejected).map(pair => pair.id));
+    const accepted = options.includeRejected
+      ? pairs
+      : pairs.filter(pair => !rejectedIds.has(pair.id) && (pair.isCorrect || !rejectedIds.has(pair.correctPairId ?? '')));
+    const inLanguages = options.languages.length > 0
+      ? accepted.filter(pair => options.languages.includes(pair.language || UNDETERMINED_LANGUAGE))
+      : accepted;
+    if (!options.balanceLanguages) return inLanguages;
+
+    const byLanguage = new Map<string, QAPair[]>();
+    inLanguages.filter(pair => pair.isCorrect).forEach(pair => {
+      const language = pair.language || UNDETERMINED_LANGUAGE;
+      byLanguage.set(language, [...(byLanguage.get(language) || []), pair]);
+    });
+    const cap = Math.min(...[...byLanguage.values()].map(group => group.length));
+
+    // Sample evenly so every source and theme stays represented
+    const keptIds = new Set<string>();
+    byLanguage.forEach(group => {
+      for (let i = 0; i < cap; i++) keptIds.add(group[Math.floor(i * group.length / cap)].id);
+    });
+    return inLanguages.filter(pair => keptIds.has(pair.isCorrect ? pair.id : pair.correctPairId ?? ''));
+  }
+
+  /**
+   * Maps every pair to the id of the pair its family grows from. Question
+   * variants, translations and incorrect answers all lead back to one root,
+   * so a family never straddles the train/test boundary.
+   */
+  private familyIds(pairs: QAPair[]): Map<string, string> {
+    const pairsById = new Map(pairs.map(pair => [pair.id, pair]));
+    const rootOf = (pair: QAPair, seen: Set<string>): string => {
+      const parentId = pair.parentPairId ?? pair.translationOf ?? (pair.isCorrect ? undefined : pair.correctPairId);
+      if (!parentId) return pair.id;
+      const parent = pairsById.get(parentId);
+      // A parent left out of the export still names the family its siblings share
+      if (!parent || seen.has(parentId)) return parentId;
+      seen.add(parentId);
+      return rootOf(parent, seen);
+    };
+    return new Map(pairs.map(pair => [pair.id, rootOf(pair, new Set([pair.id]))]));
+  }
+
+  /** Assigns whole families to the test set by a stable hash of their root id. */
+  private splitByFamily(pairs: QAPair[], testShare: number): { train: QAPair[]; test: QAPair[] } {
+    const families = this.familyIds(pairs);
+    const isTest = (familyId: string) => {
+      let hash = 2166136261;
+      for (let i = 0; i < familyId.length; i++) {
+        hash = Math.imul(hash ^ familyId.charCodeAt(i), 16777619);
+      }
+      // Final mix so ids that differ only in their last characters still spread out
+      hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+      hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+      return ((hash ^ (hash >>> 16)) >>> 0) / 0xffffffff < testShare;
+    };
+    return {
+      train: pairs.filter(pair => !isTest(families.get(pair.id)!)),
+      test: pairs.filter(pair => isTest(families.get(pair.id)!)),
+    };
   }
 
   private createJSONL(data: ProcessedData): string {
     const lines: string[] = [];
+    const families = this.familyIds(data.qaPairs);
     
     // Add original Q&A pairs
     data.qaPairs.forEach(pair => {
       lines.push(JSON.stringify({
-        messages: [
-          { role: 'user', content: pair.user },
-          { role: 'assistant', content: pair.model }
-        ],
+        messages: ConversationService.toMessages(pair),
         metadata: {
+          id: pair.id,
           source: pair.source,
-          isCorrect: pair.isCorrect
+          refusalKind: pair.refusalKind,
+          isCorrect: pair.isCorrect,
+          correctPairId: pair.correctPairId,
+          groundingUris: pair.groundingUris,
+          sourceId: pair.attribution?.sourceId,
+          sourceName: pair.attribution?.sourceLabel,
+          chunkIndex: pair.attribution?.chunkIndex,
+          span: pair.attribution && [pair.attribution.start, pair.attribution.end],
+          validationStatus: pair.validationStatus,
+          needsReview: pair.needsReview,
+          judgeScores: pair.judgeScores,
+          original: pair.original,
+          edits: pair.edits,
+          factualAccuracy: pair.faithfulness?.factualAccuracy,
+          unsupportedClaims: pair.faithfulness?.unsupportedClaims,
+          safetyFlags: pair.safetyFlags,
+          language: pair.language,
+          translationOf: pair.translationOf,
+          parentPairId: pair.parentPairId,
+          variantType: pair.variantType,
+          reasoningConsistent: pair.reasoningCheck?.isConsistent,
+          familyId: families.get(pair.id),
+          difficulty: pair.difficulty,
+          theme: pair.theme,
+          questionType: pair.questionType
         }
       }));
     });
@@ -35,17 +184,127 @@ class DownloadService {
     return lines.join('\n');
   }
 
+  private createPreferenceJSONL(data: ProcessedData): string {
+    const pairsById = new Map(data.qaPairs.map(pair => [pair.id, pair]));
+    const lines: string[] = [];
+
+    data.qaPairs
+      .filter(pair => !pair.isCorrect && pair.correctPairId)
+      .forEach(incorrectPair => {
+        const correctPair = pairsById.get(incorrectPair.correctPairId!);
+        if (!correctPair) return;
+
+        const record: StandardFormatQAPair = {
+          input: {
+            // Everything up to the answer being compared
+            messages: ConversationService.toMessages(correctPair).slice(0, -1)
+          },
+          preferred_output: [{ role: 'assistant', content: correctPair.model }],
+          non_preferred_output: [{ role: 'assistant', content: incorrectPair.model }],
+          metadata: {
+            is_correct: true,
+            confidence: correctPair.confidence,
+            theme: correctPair.theme,
+            difficulty: correctPair.difficulty,
+            question_type: correctPair.questionType,
+            language: correctPair.language,
+          }
+        };
+        lines.push(JSON.stringify(record));
+      });
+
+    return lines.join('\n');
+  }
+
+  private createRagJSONL(data: ProcessedData, options: ExportOptions): string {
+    return data.qaPairs
+      .filter(pair => pair.context)
+      .map(pair => JSON.stringify({
+        messages: RagService.toMessages(pair, options.contextPlacement),
+        metadata: this.ragMetadata(pair)
+      }))
+      .join('\n');
+  }
+
+  private createRagInstructionJSONL(data: ProcessedData, options: ExportOptions): string {
+    return data.qaPairs
+      .filter(pair => pair.context)
+      .map(pair => JSON.stringify({
+        ...RagService.toInstruction(pair, options.contextPlacement),
+        metadata: this.ragMetadata(pair)
+      }))
+      .join('\n');
+  }
+
+  private ragMetadata(pair: QAPair) {
+    const passages = pair.context || [];
+    return {
+      id: pair.id,
+      source: pair.source,
+      language: pair.language,
+      // Position of the gold passage in the context; -1 when none of the passages answer the question
+      goldIndex: passages.findIndex(passage => passage.isGold),
+      passages: passages.map(passage => ({ sourceId: passage.sourceId, chunkIndex: passage.chunkIndex }))
+    };
+  }
+
+  private createOpenAIToolsJSONL(data: ProcessedData): string {
+    const tools = ToolService.toOpenAITools(data.tools || []);
+    return data.qaPairs
+      .filter(ToolService.isToolPair)
+      .map(pair => JSON.stringify({ messages: ToolService.toOpenAIMessages(pair), tools }))
+      .join('\n');
+  }
+
+  private createGenericToolsJSONL(data: ProcessedData): string {
+    const tools = ToolService.toOpenAITools(data.tools || []).map(tool => tool.function);
+    return data.qaPairs
+      .filter(ToolService.isToolPair)
+      .map(pair => JSON.stringify({
+        tools,
+        messages: ToolService.toGenericMessages(pair),
+        metadata: { id: pair.id, language: pair.language, toolCallCount: pair.toolSteps.reduce((count, step) => count + step.calls.length, 0) }
+      }))
+      .join('\n');
+  }
+
   private createCSV(data: ProcessedData): string {
-    const headers = ['question', 'answer', 'source', 'is_correct'];
+    // question/answer hold the final exchange; messages holds the full history of conversations
+    const headers = ['id', 'question', 'answer', 'messages', 'source', 'is_correct', 'correct_pair_id', 'grounding_uris', 'difficulty', 'theme', 'question_type', 'source_id', 'source_name', 'chunk_index', 'span_start', 'span_end', 'validation_status', 'factual_accuracy', 'needs_review', 'original_answer', 'safety_flags', 'language', 'translation_of', 'parent_pair_id', 'variant_type', 'refusal_kind', 'reasoning', 'reasoning_consistent', 'tool_steps'];
     const rows = [headers.join(',')];
 
     // Add original pairs
     data.qaPairs.forEach(pair => {
       rows.push([
+        pair.id,
         this.escapeCSV(pair.user),
         this.escapeCSV(pair.model),
+        this.escapeCSV(JSON.stringify(ConversationService.toMessages(pair))),
         pair.source || '',
         pair.isCorrect.toString(),
+        pair.correctPairId || '',
+        this.escapeCSV((pair.groundingUris || []).join(' ')),
+        pair.difficulty || '',
+        this.escapeCSV(pair.theme || ''),
+        pair.questionType || '',
+        pair.attribution?.sourceId || '',
+        this.escapeCSV(pair.attribution?.sourceLabel || ''),
+        pair.attribution?.chunkIndex ?? '',
+        pair.attribution?.start ?? '',
+        pair.attribution?.end ?? '',
+        pair.validationStatus || '',
+        pair.faithfulness?.factualAccuracy ?? '',
+        pair.needsReview ? 'true' : '',
+        this.escapeCSV(pair.original?.model || ''),
+        (pair.safetyFlags || []).map(flag => flag.category).join(' '),
+        pair.language || '',
+        pair.translationOf || '',
+        pair.parentPairId || '',
+        pair.variantType || '',
+        pair.refusalKind || '',
+        this.escapeCSV(pair.reasoning || ''),
+        pair.reasoningCheck ? pair.reasoningCheck.isConsistent.toString() : '',
+        ToolService.isToolPair(pair) ? this.escapeCSV(JSON.stringify(pair.toolSteps)) : '',
       ].join(','));
     });
 
@@ -53,7 +312,9 @@ class DownloadService {
   }
 
   private createJSON(data: ProcessedData): string {
-    return JSON.stringify(data, null, 2);
+    // The redaction report holds the original personal data, so it stays in the browser;
+    // pairs dropped by safety screening are for review only
+    return JSON.stringify({ ...data, redactionReport: undefined, unsafePairs: undefined }, null, 2);
   }
 
   private escapeCSV(text: string): string {
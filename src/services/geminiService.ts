@@ -1,4 +1,46 @@
-import type { QAPair, FineTuningGoal } from '../types';
+import type {
+  QAPair,
+  FineTuningGoalConfig,
+  KnowledgeGap,
+  SyntheticQAPair,
+  ConversationQAPair,
+  ToolCallQAPair,
+  ToolDefinition,
+  PairClassification,
+  ValidationResult,
+  SafetyCategory,
+  SafetyFlag,
+  VariantType,
+  RefusalKind,
+  ReasoningCheck,
+  ContentChunk,
+  SearchPassage,
+  ResearchPassage,
+} from '../types';
+import {
+  SYNTHETIC_QA_TARGET,
+  INCORRECT_ANSWER_RATIO,
+  QA_GENERATION_BATCH_SIZE,
+  MAX_OUTPUT_TOKENS_PER_BATCH,
+  KNOWLEDGE_GAP_PRIORITY_WEIGHTS,
+  CONVERSATION_BATCH_SIZE,
+  CONVERSATION_MIN_TURNS,
+  CONVERSATION_MAX_TURNS,
+  TOOL_CONVERSATION_BATCH_SIZE,
+  MAX_TOOL_STEPS,
+  DIFFICULTY_LEVELS,
+  QUESTION_TYPES,
+  VARIANT_STYLES,
+  REFUSAL_KINDS,
+} from '../constants';
+import { ChunkingService } from './chunkingService';
+import { ConversationService } from './conversationService';
+import { goalService } from './goalService';
+import { promptService } from './promptService';
+import { SafetyService } from './safetyService';
+import { LanguageService } from './languageService';
+import { ToolService } from './toolService';
+import { markFailed } from './runControlService';
 
 class GeminiService {
   private isInitialized = false;
@@ -22,8 +64,20 @@ class GeminiService {
     messages: Array<{ role: string; parts: Array<{ text?: string; inlineData?: any }> }>,
     temperature = 0.7,
     maxTokens = 2000,
-    tools?: any
+    tools?: any,
+    signal?: AbortSignal
   ): Promise<string> {
+    const data = await this.sendRequest(messages, temperature, maxTokens, tools, signal);
+    return data.content;
+  }
+
+  private async sendRequest(
+    messages: Array<{ role: string; parts: Array<{ text?: string; inlineData?: any }> }>,
+    temperature: number,
+    maxTokens: number,
+    tools: any,
+    signal?: AbortSignal
+  ): Promise<{ content: string; groundingMetadata?: any }> {
     if (!this.isInitialized) {
       throw new Error('Gemini service not initialized');
     }
@@ -42,6 +96,7 @@ class GeminiService {
           max_tokens: maxTokens,
           tools,
         }),
+        signal,
       });
 
       if (!response.ok) {
@@ -56,80 +111,898 @@ class GeminiService {
       }
 
       console.log('[GEMINI] Request successful, response length:', data.content.length);
-      return data.content;
+      return data;
     } catch (error) {
-      console.error('[GEMINI] Request failed:', error);
+      if (!signal?.aborted) {
+        console.error('[GEMINI] Request failed:', error);
+      }
       throw error;
     }
   }
 
-  async identifyThemes(content: Array<{type: 'file' | 'url', name?: string, url?: string, content: string}>, goal: FineTuningGoal): Promise<string[]> {
-    const prompt = `Analyze the following content and identify key themes for ${goal} fine-tuning:
-
-${content.map(c => `${c.type === 'file' ? `File: ${c.name}` : `URL: ${c.url}`}\n${c.content.substring(0, 2000)}`).join('\n\n')}
-
-Return a JSON array of theme names (strings only).`;
+  async identifyThemes(chunks: ContentChunk[], goal: FineTuningGoalConfig, signal?: AbortSignal): Promise<string[]> {
+    const prompt = promptService.render('themes', {
+      goalFocus: goal.promptFocus || goal.name,
+      content: ChunkingService.buildOverview(chunks),
+    });
 
     try {
       const response = await this.makeRequest([{
         role: 'user',
         parts: [{ text: prompt }]
-      }]);
+      }], 0.7, 2000, undefined, signal);
 
       const jsonMatch = response.match(/\[[\s\S]*\]/);
       if (jsonMatch) {
         return JSON.parse(jsonMatch[0]);
       }
     } catch (error) {
+      if (signal?.aborted) throw error;
       console.error('Error identifying themes:', error);
     }
 
-    return [];
+    return markFailed([]);
   }
 
-  async generateQAPairs(content: Array<{type: 'file' | 'url', name?: string, url?: string, content: string}>, themes: string[], goal: FineTuningGoal): Promise<any[]> {
-    const prompt = `Generate high-quality question-answer pairs from this content for ${goal} fine-tuning:
+  async generateQAPairs(
+    chunk: ContentChunk,
+    themes: string[],
+    goal: FineTuningGoalConfig,
+    count = QA_GENERATION_BATCH_SIZE,
+    research: ResearchPassage[] = [],
+    examples: QAPair[] = [],
+    language = chunk.language || 'en',
+    signal?: AbortSignal
+  ): Promise<QAPair[]> {
+    const prompt = promptService.render('qaGeneration', {
+      goal: goalService.buildPromptContext(goal),
+      source: `${chunk.sourceLabel}, part ${chunk.index + 1}`,
+      content: chunk.text,
+      research: this.formatResearch(research),
+      themes,
+      count,
+      questionMix: goalService.describeQuestionTypeMix(goal),
+      examples: examples.length > 0
+        ? `\n\nPairs already in the dataset (match their quality, do not repeat them):\n${examples.map(pair => `Q: ${pair.user}\nA: ${pair.model}`).join('\n\n')}`
+        : '',
+      language: LanguageService.instruction(language),
+    });
 
-Content:
-${content.map(c => c.content.substring(0, 1500)).join('\n\n')}
+    try {
+      const response = await this.makeRequest([{
+        role: 'user',
+        parts: [{ text: prompt }]
+      }], 0.7, MAX_OUTPUT_TOKENS_PER_BATCH, undefined, signal);
 
-Themes to focus on:
-${themes.join(', ')}
+      const jsonMatch = response.match(/\[[\s\S]*\]/);
+      if (jsonMatch) {
+        const pairs = JSON.parse(jsonMatch[0]);
+        return pairs
+          .filter((pair: any) => (pair.user || pair.question) && (pair.model || pair.answer))
+          .slice(0, count)
+          .map((pair: any): QAPair => {
+            const groundingUris = Array.isArray(pair.sources)
+              ? [...new Set<string>(pair.sources.map((n: number) => research[n - 1]?.uri).filter(Boolean))]
+              : [];
+            return {
+              id: crypto.randomUUID(),
+              user: pair.user || pair.question,
+              model: pair.model || pair.answer,
+              isCorrect: true,
+              confidence: 0.9,
+              source: 'original',
+              language,
+              attribution: ChunkingService.attribute([chunk], pair.evidence || pair.model || pair.answer),
+              ...(groundingUris.length > 0 && { groundingUris }),
+            };
+          });
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Error generating Q&A pairs:', error);
+    }
+
+    return markFailed([]);
+  }
 
-Generate 10-15 diverse Q&A pairs. Return JSON array with: user (question), model (answer), isCorrect (always true).`;
+  async generateConversations(
+    chunk: ContentChunk,
+    themes: string[],
+    goal: FineTuningGoalConfig,
+    count = CONVERSATION_BATCH_SIZE,
+    maxTurns = CONVERSATION_MAX_TURNS,
+    research: ResearchPassage[] = [],
+    language = chunk.language || 'en',
+    signal?: AbortSignal
+  ): Promise<ConversationQAPair[]> {
+    const prompt = promptService.render('conversationGeneration', {
+      goal: goalService.buildPromptContext(goal),
+      source: `${chunk.sourceLabel}, part ${chunk.index + 1}`,
+      content: chunk.text,
+      research: this.formatResearch(research),
+      themes,
+      count,
+      questionMix: goalService.describeQuestionTypeMix(goal),
+      minTurns: CONVERSATION_MIN_TURNS,
+      maxTurns,
+      language: LanguageService.instruction(language),
+    });
 
     try {
       const response = await this.makeRequest([{
         role: 'user',
         parts: [{ text: prompt }]
-      }]);
+      }], 0.8, MAX_OUTPUT_TOKENS_PER_BATCH, undefined, signal);
+
+      const jsonMatch = response.match(/\[[\s\S]*\]/);
+      if (jsonMatch) {
+        const conversations = JSON.parse(jsonMatch[0]);
+        return conversations
+          .map((conversation: any): ConversationQAPair | null => {
+            const turns = ConversationService.parseTurns(conversation?.turns, maxTurns);
+            if (!turns) return null;
+
+            const groundingUris = Array.isArray(conversation.sources)
+              ? [...new Set<string>(conversation.sources.map((n: number) => research[n - 1]?.uri).filter(Boolean))]
+              : [];
+            return {
+              id: crypto.randomUUID(),
+              user: turns[turns.length - 2].content,
+              model: turns[turns.length - 1].content,
+              turns,
+              isCorrect: true,
+              confidence: 0.9,
+              source: 'original',
+              language,
+              attribution: ChunkingService.attribute([chunk], conversation.evidence || turns[turns.length - 1].content),
+              ...(groundingUris.length > 0 && { groundingUris }),
+            };
+          })
+          .filter((pair: ConversationQAPair | null): pair is ConversationQAPair => pair !== null)
+          .slice(0, count);
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Error generating conversations:', error);
+    }
+
+    return markFailed([]);
+  }
+
+  /**
+   * Writes exchanges where the assistant calls the given tools, with simulated
+   * results drawn from the chunk. Exchanges with a call that does not match
+   * its tool's schema are dropped.
+   */
+  async generateToolConversations(
+    chunk: ContentChunk,
+    themes: string[],
+    goal: FineTuningGoalConfig,
+    tools: ToolDefinition[],
+    count = TOOL_CONVERSATION_BATCH_SIZE,
+    research: ResearchPassage[] = [],
+    language = chunk.language || 'en',
+    signal?: AbortSignal
+  ): Promise<ToolCallQAPair[]> {
+    const prompt = promptService.render('toolConversation', {
+      goal: goalService.buildPromptContext(goal),
+      source: `${chunk.sourceLabel}, part ${chunk.index + 1}`,
+      content: chunk.text,
+      research: this.formatResearch(research),
+      themes,
+      count,
+      maxSteps: MAX_TOOL_STEPS,
+      tools: JSON.stringify(ToolService.toOpenAITools(tools).map(tool => tool.function), null, 2),
+      language: LanguageService.instruction(language),
+    });
+
+    try {
+      const response = await this.makeRequest([{
+        role: 'user',
+        parts: [{ text: prompt }]
+      }], 0.7, MAX_OUTPUT_TOKENS_PER_BATCH, undefined, signal);
+
+      const jsonMatch = response.match(/\[[\s\S]*\]/);
+      if (jsonMatch) {
+        const exchanges = JSON.parse(jsonMatch[0]);
+        return exchanges
+          .map((exchange: any): ToolCallQAPair | null => {
+            if (typeof exchange?.user !== 'string' || typeof exchange?.model !== 'string') return null;
+            const toolSteps = ToolService.parseSteps(exchange.steps, tools);
+            if (!toolSteps) return null;
+
+            const groundingUris = Array.isArray(exchange.sources)
+              ? [...new Set<string>(exchange.sources.map((n: number) => research[n - 1]?.uri).filter(Boolean))]
+              : [];
+            return {
+              id: crypto.randomUUID(),
+              user: exchange.user,
+              model: exchange.model,
+              toolSteps,
+              isCorrect: true,
+              confidence: 0.9,
+              source: 'original',
+              language,
+              attribution: ChunkingService.attribute([chunk], exchange.evidence || exchange.model),
+              ...(groundingUris.length > 0 && { groundingUris }),
+            };
+          })
+          .filter((pair: ToolCallQAPair | null): pair is ToolCallQAPair => pair !== null)
+          .slice(0, count);
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Error generating tool conversations:', error);
+    }
+
+    return markFailed([]);
+  }
+
+  async generateResearchQueries(
+    themes: string[],
+    goal: FineTuningGoalConfig,
+    queriesPerTheme: number,
+    signal?: AbortSignal
+  ): Promise<Array<{ theme: string; queries: string[] }>> {
+    const prompt = promptService.render('researchQueries', {
+      goalFocus: goal.promptFocus || goal.name,
+      themes,
+      count: queriesPerTheme,
+    });
+
+    try {
+      const response = await this.makeRequest([{
+        role: 'user',
+        parts: [{ text: prompt }]
+      }], 0.4, 2000, undefined, signal);
+
+      const jsonMatch = response.match(/\[[\s\S]*\]/);
+      if (jsonMatch) {
+        const results = JSON.parse(jsonMatch[0]);
+        return themes.map(theme => {
+          const match = results.find((result: any) => result.theme === theme);
+          const queries = Array.isArray(match?.queries) ? match.queries.filter((q: any) => typeof q === 'string') : [];
+          return { theme, queries: queries.length > 0 ? queries.slice(0, queriesPerTheme) : [theme] };
+        });
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Error generating research queries:', error);
+    }
+
+    // Fall back to searching for the themes themselves
+    return markFailed(themes.map(theme => ({ theme, queries: [theme] })));
+  }
+
+  /**
+   * Runs a query through Gemini's Google Search tool and turns the grounding
+   * metadata into passages: the answer segments each web source supports.
+   */
+  async searchWeb(query: string, signal?: AbortSignal): Promise<SearchPassage[]> {
+    const data = await this.sendRequest([{
+      role: 'user',
+      parts: [{ text: promptService.render('webSearch', { query }) }]
+    }], 0.2, 2000, [{ googleSearch: {} }], signal);
+
+    const chunks: any[] = data.groundingMetadata?.groundingChunks || [];
+    const supports: any[] = data.groundingMetadata?.groundingSupports || [];
+
+    return chunks
+      .map((chunk, index): SearchPassage | null => {
+        if (!chunk.web?.uri) return null;
+        const supported = supports
+          .filter(support => support.groundingChunkIndices?.includes(index) && support.segment?.text)
+          .map(support => support.segment.text);
+        return {
+          uri: chunk.web.uri,
+          title: chunk.web.title || chunk.web.uri,
+          text: supported.length > 0 ? supported.join(' ') : data.content,
+        };
+      })
+      .filter((passage): passage is SearchPassage => passage !== null);
+  }
+
+  async identifyKnowledgeGaps(
+    chunks: ContentChunk[],
+    themes: string[],
+    pairs: QAPair[],
+    goal: FineTuningGoalConfig,
+    signal?: AbortSignal
+  ): Promise<KnowledgeGap[]> {
+    const prompt = promptService.render('knowledgeGaps', {
+      goalFocus: goal.promptFocus || goal.name,
+      content: ChunkingService.buildOverview(chunks),
+      themes,
+      questions: pairs.map((pair, i) => `${i + 1}. ${pair.user}`).join('\n'),
+    });
+
+    try {
+      const response = await this.makeRequest([{
+        role: 'user',
+        parts: [{ text: prompt }]
+      }], 0.4, 2000, undefined, signal);
+
+      const jsonMatch = response.match(/\[[\s\S]*\]/);
+      if (jsonMatch) {
+        const gaps = JSON.parse(jsonMatch[0]);
+        return gaps
+          .filter((gap: any) => gap && typeof gap.description === 'string')
+          // A gap in a theme the model made up can't be classified or balanced against the rest
+          .flatMap((gap: any) => {
+            const theme = this.matchTheme(gap.theme, themes);
+            return theme ? [{ ...gap, theme }] : [];
+          })
+          .map((gap: any, index: number): KnowledgeGap => ({
+            id: `gap-${index + 1}`,
+            description: gap.description,
+            theme: gap.theme,
+            priority: ['high', 'medium', 'low'].includes(gap.priority) ? gap.priority : 'medium',
+            suggestedQuestionTypes: Array.isArray(gap.suggestedQuestionTypes) ? gap.suggestedQuestionTypes : [],
+            relatedConcepts: Array.isArray(gap.relatedConcepts) ? gap.relatedConcepts : [],
+          }))
+          .sort((a: KnowledgeGap, b: KnowledgeGap) => KNOWLEDGE_GAP_PRIORITY_WEIGHTS[b.priority] - KNOWLEDGE_GAP_PRIORITY_WEIGHTS[a.priority]);
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Error identifying knowledge gaps:', error);
+    }
+
+    return markFailed([]);
+  }
+
+  /**
+   * The identified theme a gap's theme refers to, matched by number, name or
+   * containment. Without identified themes every gap is filed under 'General'.
+   */
+  private matchTheme(raw: unknown, themes: string[]): string | undefined {
+    if (themes.length === 0) return 'General';
+    if (typeof raw === 'number') return themes[raw - 1];
+    if (typeof raw !== 'string' || raw.trim() === '') return undefined;
+
+    const name = raw.trim().toLowerCase();
+    return themes.find(theme => theme.toLowerCase() === name)
+      ?? themes.find(theme => theme.toLowerCase().includes(name) || name.includes(theme.toLowerCase()));
+  }
+
+  /**
+   * Splits the synthetic target across gaps in proportion to their priority,
+   * one generation batch per gap.
+   */
+  planSyntheticBatches(gaps: KnowledgeGap[], targetCount = SYNTHETIC_QA_TARGET): Array<{ gap: KnowledgeGap; count: number }> {
+    const totalWeight = gaps.reduce((sum, gap) => sum + KNOWLEDGE_GAP_PRIORITY_WEIGHTS[gap.priority], 0);
+    const batches: Array<{ gap: KnowledgeGap; count: number }> = [];
+    let planned = 0;
+
+    for (const gap of gaps) {
+      const remaining = targetCount - planned;
+      if (remaining <= 0) break;
+
+      const share = Math.round(targetCount * KNOWLEDGE_GAP_PRIORITY_WEIGHTS[gap.priority] / totalWeight);
+      const count = Math.min(remaining, QA_GENERATION_BATCH_SIZE, Math.max(1, share));
+      batches.push({ gap, count });
+      planned += count;
+    }
+
+    return batches;
+  }
+
+  async generateSyntheticQAPairs(
+    chunks: ContentChunk[],
+    gap: KnowledgeGap,
+    goal: FineTuningGoalConfig,
+    count: number,
+    targetLanguage?: string,
+    signal?: AbortSignal
+  ): Promise<SyntheticQAPair[]> {
+    const relevantChunks = ChunkingService.findRelevant(chunks, [gap.description, gap.theme, ...gap.relatedConcepts].join(' '));
+    const language = targetLanguage ?? LanguageService.dominant(relevantChunks);
+    const prompt = promptService.render('syntheticGeneration', {
+      goal: goalService.buildPromptContext(goal),
+      count,
+      gap: gap.description,
+      gapTheme: gap.theme,
+      questionTypes: gap.suggestedQuestionTypes.join(', ') || goalService.describeQuestionTypeMix(goal),
+      concepts: gap.relatedConcepts.join(', ') || 'none',
+      content: relevantChunks.map(chunk => chunk.text).join('\n\n'),
+      language: LanguageService.instruction(language),
+    });
+
+    try {
+      const response = await this.makeRequest([{
+        role: 'user',
+        parts: [{ text: prompt }]
+      }], 0.7, MAX_OUTPUT_TOKENS_PER_BATCH, undefined, signal);
 
       const jsonMatch = response.match(/\[[\s\S]*\]/);
       if (jsonMatch) {
         const pairs = JSON.parse(jsonMatch[0]);
-        return pairs.map((pair: any) => ({
-          question: pair.user || pair.question,
-          answer: pair.model || pair.answer,
-          isCorrect: true,
-          confidence: 0.9,
-          source: 'original'
-        }));
+        return pairs
+          .filter((pair: any) => (pair.user || pair.question) && (pair.model || pair.answer))
+          .slice(0, count)
+          .map((pair: any): SyntheticQAPair => ({
+            id: crypto.randomUUID(),
+            user: pair.user || pair.question,
+            model: pair.model || pair.answer,
+            isCorrect: true,
+            confidence: 0.85,
+            source: 'synthetic',
+            language,
+            attribution: ChunkingService.attribute(relevantChunks, pair.evidence || pair.model || pair.answer),
+            knowledgeGap: gap.description,
+            targetGap: gap.id,
+            generationReasoning: pair.reasoning,
+          }));
       }
     } catch (error) {
-      console.error('Error generating Q&A pairs:', error);
+      if (signal?.aborted) throw error;
+      console.error(`Error generating synthetic Q&A pairs for ${gap.id}:`, error);
+    }
+
+    return markFailed([]);
+  }
+
+  /**
+   * Tags each pair with a difficulty, the theme it covers and its question type.
+   * Themes the model invents are dropped rather than added to the theme list.
+   */
+  async classifyQAPairs(
+    pairs: QAPair[],
+    themes: string[],
+    goal: FineTuningGoalConfig,
+    signal?: AbortSignal
+  ): Promise<PairClassification[]> {
+    const prompt = promptService.render('classification', {
+      goalName: goal.name,
+      themes,
+      pairs: pairs.map((pair, i) => `${i + 1}. ${ConversationService.describeHistory(pair)}Q: ${pair.user}\n${ToolService.describeSteps(pair)}A: ${pair.model}`).join('\n\n'),
+      difficulties: DIFFICULTY_LEVELS.map(level => `"${level}"`).join(', '),
+      questionTypes: QUESTION_TYPES.map(type => `"${type}"`).join(', '),
+    });
+
+    try {
+      const response = await this.makeRequest([{
+        role: 'user',
+        parts: [{ text: prompt }]
+      }], 0.2, 2000, undefined, signal);
+
+      const jsonMatch = response.match(/\[[\s\S]*\]/);
+      if (jsonMatch) {
+        const results = JSON.parse(jsonMatch[0]);
+        return results
+          .filter((result: any) => pairs[result.index - 1])
+          .map((result: any): PairClassification => ({
+            pairId: pairs[result.index - 1].id,
+            difficulty: DIFFICULTY_LEVELS.includes(result.difficulty) ? result.difficulty : 'medium',
+            theme: themes[Number(result.theme) - 1] ?? themes.find(theme => theme === result.theme),
+            questionType: QUESTION_TYPES.includes(result.questionType) ? result.questionType : 'factual',
+          }));
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Error classifying Q&A pairs:', error);
+    }
+
+    return markFailed([]);
+  }
+
+  /**
+   * Scores how much of each answer its source passage supports and lists the
+   * claims it does not. Answers below `threshold` are marked invalid.
+   */
+  async verifyFaithfulness(
+    items: Array<{ pair: QAPair; passage: string }>,
+    threshold: number,
+    signal?: AbortSignal
+  ): Promise<ValidationResult[]> {
+    const prompt = promptService.render('faithfulness', {
+      items: items.map(({ pair, passage }, i) => `${i + 1}. Passage: ${passage}\n${ConversationService.describeHistory(pair)}Q: ${pair.user}\n${ToolService.describeSteps(pair)}A: ${pair.model}`).join('\n\n'),
+    });
+
+    try {
+      const response = await this.makeRequest([{
+        role: 'user',
+        parts: [{ text: prompt }]
+      }], 0.1, 2000, undefined, signal);
+
+      const jsonMatch = response.match(/\[[\s\S]*\]/);
+      if (jsonMatch) {
+        const results = JSON.parse(jsonMatch[0]);
+        return results
+          .filter((result: any) => items[result.index - 1] && typeof result.factualAccuracy === 'number')
+          .map((result: any): ValidationResult => {
+            const factualAccuracy = Math.max(0, Math.min(1, result.factualAccuracy));
+            return {
+              pairId: items[result.index - 1].pair.id,
+              isValid: factualAccuracy >= threshold,
+              confidence: factualAccuracy,
+              reasoning: typeof result.reasoning === 'string' ? result.reasoning : '',
+              factualAccuracy,
+              relevanceScore: typeof result.relevance === 'number' ? result.relevance : factualAccuracy,
+              unsupportedClaims: Array.isArray(result.unsupportedClaims)
+                ? result.unsupportedClaims.filter((claim: any) => typeof claim === 'string')
+                : [],
+            };
+          });
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Error verifying faithfulness:', error);
+    }
+
+    return markFailed([]);
+  }
+
+  /**
+   * Writes the rationale that leads to each final answer, working from the
+   * pair's source passage when it has one. Pairs without a usable rationale are omitted.
+   */
+  async generateReasoning(
+    items: Array<{ pair: QAPair; passage?: string }>,
+    goal: FineTuningGoalConfig,
+    signal?: AbortSignal
+  ): Promise<Array<{ pairId: string; reasoning: string }>> {
+    const prompt = promptService.render('reasoning', {
+      goal: goalService.buildPromptContext(goal),
+      items: items.map(({ pair, passage }, i) =>
+        `${i + 1}. ${passage ? `Passage: ${passage}\n` : ''}${ConversationService.describeHistory(pair)}Q: ${pair.user}\n${ToolService.describeSteps(pair)}A: ${pair.model}`
+      ).join('\n\n'),
+    });
+
+    try {
+      const response = await this.makeRequest([{
+        role: 'user',
+        parts: [{ text: prompt }]
+      }], 0.4, MAX_OUTPUT_TOKENS_PER_BATCH, undefined, signal);
+
+      const jsonMatch = response.match(/\[[\s\S]*\]/);
+      if (jsonMatch) {
+        const results = JSON.parse(jsonMatch[0]);
+        return results
+          .filter((result: any) => items[result.index - 1] && typeof result.reasoning === 'string' && result.reasoning.trim())
+          .map((result: any) => ({ pairId: items[result.index - 1].pair.id, reasoning: result.reasoning.trim() }));
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Error generating reasoning:', error);
+    }
+
+    return markFailed([]);
+  }
+
+  /** Checks that each pair's rationale arrives at its final answer without contradicting it. */
+  async checkReasoning(
+    pairs: QAPair[],
+    signal?: AbortSignal
+  ): Promise<Array<{ pairId: string; check: ReasoningCheck }>> {
+    const prompt = promptService.render('reasoningCheck', {
+      items: pairs.map((pair, i) => `${i + 1}. ${ConversationService.describeHistory(pair)}Q: ${pair.user}\n${ToolService.describeSteps(pair)}Reasoning: ${pair.reasoning}\nA: ${pair.model}`).join('\n\n'),
+    });
+
+    try {
+      const response = await this.makeRequest([{
+        role: 'user',
+        parts: [{ text: prompt }]
+      }], 0.1, 2000, undefined, signal);
+
+      const jsonMatch = response.match(/\[[\s\S]*\]/);
+      if (jsonMatch) {
+        const results = JSON.parse(jsonMatch[0]);
+        return results
+          .filter((result: any) => pairs[result.index - 1] && typeof result.isConsistent === 'boolean')
+          .map((result: any) => ({
+            pairId: pairs[result.index - 1].id,
+            check: {
+              isConsistent: result.isConsistent,
+              issues: Array.isArray(result.issues) ? result.issues.filter((issue: any) => typeof issue === 'string') : [],
+            },
+          }));
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Error checking reasoning:', error);
+    }
+
+    return markFailed([]);
+  }
+
+  /** Asks the model which pairs fall into the given safety categories; unflagged pairs are omitted. */
+  async moderatePairs(
+    pairs: QAPair[],
+    categories: SafetyCategory[],
+    signal?: AbortSignal
+  ): Promise<Array<{ pairId: string; flags: SafetyFlag[] }>> {
+    const prompt = promptService.render('moderation', {
+      categories: categories.map(category => `${category.id}: ${category.description}`),
+      pairs: pairs.map((pair, i) => `${i + 1}. ${SafetyService.pairText(pair)}`).join('\n\n'),
+    });
+
+    try {
+      const response = await this.makeRequest([{
+        role: 'user',
+        parts: [{ text: prompt }]
+      }], 0.1, 2000, undefined, signal);
+
+      const jsonMatch = response.match(/\[[\s\S]*\]/);
+      if (jsonMatch) {
+        const results = JSON.parse(jsonMatch[0]);
+        return results
+          .filter((result: any) => pairs[result.index - 1] && Array.isArray(result.categories))
+          .map((result: any) => ({
+            pairId: pairs[result.index - 1].id,
+            flags: result.categories
+              .filter((id: any) => categories.some(category => category.id === id))
+              .map((id: string): SafetyFlag => ({
+                category: id,
+                detectedBy: 'moderation',
+                reason: typeof result.reason === 'string' ? result.reason : '',
+              })),
+          }))
+          .filter((result: { flags: SafetyFlag[] }) => result.flags.length > 0);
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Error moderating Q&A pairs:', error);
+    }
+
+    return markFailed([]);
+  }
+
+  /**
+   * Translates whole pairs, including every turn of a conversation, into
+   * `language`. Copies keep the tags and attribution of their original, but
+   * not its verdicts: nobody has checked the translation.
+   */
+  async translatePairs(pairs: QAPair[], language: string, signal?: AbortSignal): Promise<QAPair[]> {
+    const prompt = promptService.render('translation', {
+      language: LanguageService.instruction(language),
+      items: pairs.map((pair, i) => `${i + 1}. ${JSON.stringify(ConversationService.toMessages(pair))}`).join('\n\n'),
+    });
+
+    try {
+      const response = await this.makeRequest([{
+        role: 'user',
+        parts: [{ text: prompt }]
+      }], 0.3, MAX_OUTPUT_TOKENS_PER_BATCH, undefined, signal);
+
+      const jsonMatch = response.match(/\[[\s\S]*\]/);
+      if (jsonMatch) {
+        const results = JSON.parse(jsonMatch[0]);
+        return results
+          .map((result: any): QAPair | null => {
+            const original = pairs[result?.index - 1];
+            if (!original || !Array.isArray(result.messages)) return null;
+
+            // The translation must mirror the original message for message
+            const messages = ConversationService.toMessages(original);
+            if (result.messages.length !== messages.length
+              || result.messages.some((message: any, i: number) => message?.role !== messages[i].role || typeof message.content !== 'string')) {
+              return null;
+            }
+
+            const contents: string[] = result.messages.map((message: any) => message.content);
+            return {
+              ...original,
+              id: crypto.randomUUID(),
+              user: contents[contents.length - 2],
+              model: contents[contents.length - 1],
+              language,
+              translationOf: original.id,
+              original: undefined,
+              edits: undefined,
+              validationStatus: 'pending',
+              validationConfidence: undefined,
+              validation: undefined,
+              judgeScores: undefined,
+              needsReview: undefined,
+              faithfulness: undefined,
+              ...(ConversationService.isConversation(original) && {
+                turns: original.turns.map((turn, i) => ({ ...turn, content: contents[i] })),
+              }),
+            };
+          })
+          .filter((pair: QAPair | null): pair is QAPair => pair !== null);
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`Error translating Q&A pairs to ${language}:`, error);
+    }
+
+    return markFailed([]);
+  }
+
+  /**
+   * Writes plausible questions the sources cannot answer, each paired with a
+   * refusal in the goal's answer style. `avoid` holds questions already written.
+   */
+  async generateUnanswerableQuestions(
+    chunks: ContentChunk[],
+    themes: string[],
+    goal: FineTuningGoalConfig,
+    count: number,
+    avoid: QAPair[] = [],
+    language = LanguageService.dominant(chunks),
+    signal?: AbortSignal
+  ): Promise<QAPair[]> {
+    const kinds = Object.keys(REFUSAL_KINDS) as RefusalKind[];
+    const prompt = promptService.render('unanswerable', {
+      goal: goalService.buildPromptContext(goal),
+      content: ChunkingService.buildOverview(chunks),
+      themes,
+      count,
+      language: LanguageService.instruction(language),
+      kinds: kinds.map(kind => `${kind}: ${REFUSAL_KINDS[kind]}`),
+      avoid: avoid.length > 0
+        ? `\n\nQuestions already written (do not repeat them):\n${avoid.map(pair => `- ${pair.user}`).join('\n')}`
+        : '',
+    });
+
+    try {
+      const response = await this.makeRequest([{
+        role: 'user',
+        parts: [{ text: prompt }]
+      }], 0.8, MAX_OUTPUT_TOKENS_PER_BATCH, undefined, signal);
+
+      const jsonMatch = response.match(/\[[\s\S]*\]/);
+      if (jsonMatch) {
+        const pairs = JSON.parse(jsonMatch[0]);
+        return pairs
+          .filter((pair: any) => typeof pair.user === 'string' && typeof pair.model === 'string')
+          .slice(0, count)
+          .map((pair: any): QAPair => ({
+            id: crypto.randomUUID(),
+            user: pair.user,
+            model: pair.model,
+            isCorrect: true,
+            confidence: 0.85,
+            source: 'unanswerable',
+            refusalKind: kinds.includes(pair.kind) ? pair.kind : 'not-covered',
+            language,
+          }));
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Error generating unanswerable questions:', error);
+    }
+
+    return markFailed([]);
+  }
+
+  /**
+   * Writes reworded and noisy versions of each question. Variants keep the
+   * answer of their parent pair and are linked to it by `parentPairId`.
+   */
+  async generateQuestionVariants(
+    pairs: QAPair[],
+    paraphraseCount: number,
+    noisyVariants: VariantType[],
+    signal?: AbortSignal
+  ): Promise<QAPair[]> {
+    const requested: Array<{ type: VariantType; count: number }> = [
+      ...(paraphraseCount > 0 ? [{ type: 'paraphrase' as const, count: paraphraseCount }] : []),
+      ...noisyVariants.map(type => ({ type, count: 1 })),
+    ];
+    if (requested.length === 0) return [];
+
+    const prompt = promptService.render('questionVariants', {
+      variantRequests: requested.map(({ type, count }) => `${count} of type "${type}": ${VARIANT_STYLES[type]}`),
+      questions: pairs.map((pair, i) => `${i + 1}. ${ConversationService.describeHistory(pair)}Q: ${pair.user}`).join('\n\n'),
+    });
+
+    try {
+      const response = await this.makeRequest([{
+        role: 'user',
+        parts: [{ text: prompt }]
+      }], 0.9, MAX_OUTPUT_TOKENS_PER_BATCH, undefined, signal);
+
+      const jsonMatch = response.match(/\[[\s\S]*\]/);
+      if (jsonMatch) {
+        const results = JSON.parse(jsonMatch[0]);
+        return results
+          .filter((result: any) => pairs[result?.index - 1] && Array.isArray(result.variants))
+          .flatMap((result: any) => {
+            const parent = pairs[result.index - 1];
+            // Never return more of a type than was asked for
+            return requested.flatMap(({ type, count }) => result.variants
+              .filter((variant: any) => variant?.type === type && typeof variant.question === 'string'
+                && variant.question.trim() !== '' && variant.question.trim() !== parent.user.trim())
+              .slice(0, count)
+              .map((variant: any): QAPair => ({
+                ...parent,
+                id: crypto.randomUUID(),
+                user: variant.question.trim(),
+                parentPairId: parent.id,
+                variantType: type,
+                original: undefined,
+                edits: undefined,
+                ...(ConversationService.isConversation(parent) && {
+                  turns: ConversationService.withFinalQuestion(parent.turns, variant.question.trim()),
+                }),
+              })));
+          });
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Error generating question variants:', error);
+    }
+
+    return markFailed([]);
+  }
+
+  /**
+   * The correct pairs that get an incorrect counterpart, spread evenly so
+   * every source and theme is represented. Only answerable originals that
+   * were not rejected qualify: a wrong answer to a variant, a translation or
+   * an out-of-scope question, or to a pair the export drops, is no use.
+   */
+  selectIncorrectAnswerPairs(pairs: QAPair[], ratio = INCORRECT_ANSWER_RATIO): QAPair[] {
+    const correctPairs = pairs.filter(pair =>
+      pair.isCorrect && pair.source !== 'unanswerable' && !pair.parentPairId && !pair.translationOf
+      && pair.validationStatus !== 'rejected' && pair.validationStatus !== 'failed'
+    );
+    const count = Math.min(correctPairs.length, Math.round(correctPairs.length * ratio));
+    if (count <= 0) {
+      return [];
+    }
+
+    const step = correctPairs.length / count;
+    return Array.from({ length: count }, (_, i) => correctPairs[Math.floor(i * step)]);
+  }
+
+  /** Writes one plausible wrong answer for each of the selected correct pairs. */
+  async generateIncorrectAnswers(
+    selected: QAPair[],
+    goal: FineTuningGoalConfig,
+    signal?: AbortSignal
+  ): Promise<QAPair[]> {
+    const prompt = promptService.render('incorrectAnswers', {
+      goalName: goal.name,
+      pairs: selected.map((pair, i) => `${i + 1}. ${ConversationService.describeHistory(pair)}Q: ${pair.user}\n${ToolService.describeSteps(pair)}Correct A: ${pair.model}`).join('\n\n'),
+    });
+
+    try {
+      const response = await this.makeRequest([{
+        role: 'user',
+        parts: [{ text: prompt }]
+      }], 0.8, 2000, undefined, signal);
+
+      const jsonMatch = response.match(/\[[\s\S]*\]/);
+      if (jsonMatch) {
+        const results = JSON.parse(jsonMatch[0]);
+        return results
+          .filter((result: any) => typeof result.incorrectAnswer === 'string' && selected[result.index - 1])
+          .map((result: any): QAPair => {
+            const counterpart = selected[result.index - 1];
+            return {
+              id: crypto.randomUUID(),
+              user: counterpart.user,
+              model: result.incorrectAnswer,
+              isCorrect: false,
+              source: counterpart.source,
+              knowledgeGap: counterpart.knowledgeGap,
+              correctPairId: counterpart.id,
+              attribution: counterpart.attribution,
+              difficulty: counterpart.difficulty,
+              theme: counterpart.theme,
+              questionType: counterpart.questionType,
+              language: counterpart.language,
+              // Conversations keep their history so the wrong answer is judged in context
+              ...(ConversationService.isConversation(counterpart) && {
+                turns: ConversationService.withFinalAnswer(counterpart.turns, result.incorrectAnswer),
+              }),
+            };
+          });
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Error generating incorrect answers:', error);
     }
 
-    return [];
+    return markFailed([]);
   }
 
-  async validateQAPairs(pairs: QAPair[]): Promise<any[]> {
-    // Mock validation
-    return pairs.map(() => ({
-      pairId: undefined,
-      isValid: Math.random() > 0.1,
-      confidence: Math.random() * 0.2 + 0.8,
-      factualAccuracy: Math.random() * 0.1 + 0.9,
-    }));
+  private formatResearch(research: ResearchPassage[]): string {
+    if (research.length === 0) return '';
+    return `\n\nSupplementary web research (use it to enrich answers where it agrees with the content):\n${research.map((passage, i) => `[${i + 1}] ${passage.title} (${passage.uri})\n${passage.text}`).join('\n\n')}`;
   }
 }
 
@@ -0,0 +1,85 @@
+import { FINE_TUNING_GOALS, QUESTION_TYPES } from '../constants';
+import type { FineTuningGoalConfig } from '../types';
+
+const STORAGE_KEY = 'fine-format:custom-goals';
+
+class GoalService {
+  /** Built-in goals first, then the user's own goals in the order they were created. */
+  list(): FineTuningGoalConfig[] {
+    return [...FINE_TUNING_GOALS, ...this.loadCustomGoals()];
+  }
+
+  get(id: string): FineTuningGoalConfig {
+    return this.list().find(goal => goal.id === id) ?? FINE_TUNING_GOALS[0];
+  }
+
+  /** Starts a new custom goal, optionally copied from an existing one. */
+  createDraft(base?: FineTuningGoalConfig): FineTuningGoalConfig {
+    return {
+      id: crypto.randomUUID(),
+      name: base ? `${base.name} (copy)` : 'New goal',
+      description: base?.description ?? '',
+      icon: base?.icon ?? '⭐',
+      promptFocus: base?.promptFocus ?? '',
+      questionTypeMix: { ...(base?.questionTypeMix ?? { factual: 1 }) },
+      answerStyle: base?.answerStyle ?? '',
+      isCustom: true,
+    };
+  }
+
+  save(goal: FineTuningGoalConfig): void {
+    if (!goal.isCustom) {
+      throw new Error('Built-in goals cannot be changed; save a copy instead');
+    }
+    const goals = this.loadCustomGoals();
+    const index = goals.findIndex(existing => existing.id === goal.id);
+    if (index === -1) {
+      goals.push(goal);
+    } else {
+      goals[index] = goal;
+    }
+    this.storeCustomGoals(goals);
+  }
+
+  remove(id: string): void {
+    this.storeCustomGoals(this.loadCustomGoals().filter(goal => goal.id !== id));
+  }
+
+  /** The question type mix as percentages, e.g. "50% factual, 50% reasoning". */
+  describeQuestionTypeMix(goal: FineTuningGoalConfig): string {
+    const weights = QUESTION_TYPES
+      .map(type => ({ type, weight: goal.questionTypeMix[type] ?? 0 }))
+      .filter(entry => entry.weight > 0);
+    const total = weights.reduce((sum, entry) => sum + entry.weight, 0);
+    if (total === 0) return 'any';
+    return weights.map(entry => `${Math.round((entry.weight / total) * 100)}% ${entry.type}`).join(', ');
+  }
+
+  /** Prompt section that tells the model what the dataset is for and how answers should read. */
+  buildPromptContext(goal: FineTuningGoalConfig): string {
+    return `Fine-tuning goal: ${goal.name}${goal.description ? ` - ${goal.description}` : ''}
+Focus on: ${goal.promptFocus || goal.name}
+Answer style: ${goal.answerStyle || 'clear and accurate'}`;
+  }
+
+  private loadCustomGoals(): FineTuningGoalConfig[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const goals = stored ? JSON.parse(stored) : [];
+      return Array.isArray(goals) ? goals.map(goal => ({ ...goal, isCustom: true })) : [];
+    } catch (error) {
+      console.warn('[GOALS] Failed to load custom goals:', error);
+      return [];
+    }
+  }
+
+  private storeCustomGoals(goals: FineTuningGoalConfig[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(goals));
+    } catch (error) {
+      console.warn('[GOALS] Failed to save custom goals:', error);
+    }
+  }
+}
+
+export const goalService = new GoalService();
@@ -0,0 +1,85 @@
+import type { ContentChunk } from '../types';
+import { LANGUAGES, LANGUAGE_DETECTION_SAMPLE_LENGTH } from '../constants';
+
+export const UNDETERMINED_LANGUAGE = 'und';
+
+export class LanguageService {
+  // Scripts used by a single language in our list
+  private static readonly SCRIPTS: Array<{ code: string; pattern: RegExp }> = [
+    { code: 'ko', pattern: /\p{Script=Hangul}/gu },
+    { code: 'ja', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+    { code: 'zh', pattern: /\p{Script=Han}/gu },
+    { code: 'el', pattern: /\p{Script=Greek}/gu },
+    { code: 'ar', pattern: /\p{Script=Arabic}/gu },
+    { code: 'he', pattern: /\p{Script=Hebrew}/gu },
+    { code: 'hi', pattern: /\p{Script=Devanagari}/gu },
+    { code: 'th', pattern: /\p{Script=Thai}/gu },
+  ];
+
+  // Frequent short words that tell Latin-script languages apart
+  private static readonly STOPWORDS: Record<string, Set<string>> = {
+    en: new Set(['the', 'and', 'of', 'to', 'is', 'in', 'that', 'it', 'for', 'with', 'was', 'on', 'are', 'this', 'be', 'by', 'not', 'you']),
+    es: new Set(['el', 'la', 'de', 'que', 'y', 'los', 'las', 'en', 'un', 'una', 'por', 'con', 'para', 'es', 'del', 'se', 'no', 'como']),
+    fr: new Set(['le', 'la', 'les', 'de', 'des', 'et', 'est', 'un', 'une', 'du', 'que', 'qui', 'en', 'pour', 'dans', 'pas', 'sur', 'au']),
+    de: new Set(['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'zu', 'mit', 'den', 'von', 'für', 'auf', 'dem', 'sich', 'auch']),
+    it: new Set(['il', 'di', 'che', 'e', 'la', 'per', 'un', 'una', 'non', 'sono', 'del', 'della', 'con', 'gli', 'le', 'è', 'nel']),
+    pt: new Set(['o', 'a', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'uma', 'para', 'com', 'não', 'os', 'as', 'por', 'é', 'se']),
+    nl: new Set(['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'op', 'te', 'in', 'voor', 'niet', 'met', 'zijn', 'er', 'aan', 'ook']),
+    pl: new Set(['i', 'w', 'na', 'z', 'się', 'nie', 'do', 'to', 'że', 'jest', 'od', 'jak', 'przez', 'dla', 'są']),
+    tr: new Set(['ve', 'bir', 'bu', 'için', 'ile', 'da', 'de', 'olarak', 'çok', 'gibi', 'daha', 'değil', 'olan']),
+  };
+
+  /**
+   * Detects the dominant language of a text from a sample at its start.
+   * Non-Latin scripts decide on their own; Latin and Cyrillic text is told
+   * apart by its most frequent short words and letters.
+   */
+  public static detect(text: string): string {
+    const sample = text.slice(0, LANGUAGE_DETECTION_SAMPLE_LENGTH);
+    const letters = sample.match(/\p{L}/gu)?.length ?? 0;
+    if (letters === 0) return UNDETERMINED_LANGUAGE;
+
+    const scriptCounts = this.SCRIPTS.map(({ code, pattern }) => ({ code, count: sample.match(pattern)?.length ?? 0 }));
+    const kana = scriptCounts.find(script => script.code === 'ja')!.count;
+    // Japanese mixes kana with Han characters, so any real share of kana means Japanese
+    if (kana > 0 && kana >= letters * 0.1) return 'ja';
+    const script = scriptCounts.filter(entry => entry.code !== 'ja').sort((a, b) => b.count - a.count)[0];
+    if (script.count >= letters * 0.3) return script.code;
+
+    const cyrillic = sample.match(/\p{Script=Cyrillic}/gu)?.length ?? 0;
+    if (cyrillic >= letters * 0.3) {
+      return /[іїєґ]/iu.test(sample) ? 'uk' : 'ru';
+    }
+
+    const words = sample.toLowerCase().match(/\p{L}+/gu) || [];
+    const scores = Object.entries(this.STOPWORDS).map(([code, stopwords]) => ({
+      code,
+      score: words.filter(word => stopwords.has(word)).length,
+    }));
+    const best = scores.sort((a, b) => b.score - a.score)[0];
+    return best.score > 0 ? best.code : UNDETERMINED_LANGUAGE;
+  }
+
+  /** Human-readable name for prompts and the UI. */
+  public static name(code: string): string {
+    if (code === UNDETERMINED_LANGUAGE) return 'Unknown';
+    return LANGUAGES.find(language => language.code === code)?.name ?? code;
+  }
+
+  /** Instruction for prompts; undetermined languages follow the content. */
+  public static instruction(code: string): string {
+    return code === UNDETERMINED_LANGUAGE
+      ? 'the same language as the content'
+      : `${this.name(code)} (${code})`;
+  }
+
+  /** The language most of the chunks are written in. */
+  public static dominant(chunks: ContentChunk[]): string {
+    const lengths = new Map<string, number>();
+    chunks.forEach(chunk => {
+      const code = chunk.language || UNDETERMINED_LANGUAGE;
+      lengths.set(code, (lengths.get(code) || 0) + chunk.text.length);
+    });
+    return [...lengths.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? UNDETERMINED_LANGUAGE;
+  }
+}
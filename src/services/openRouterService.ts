@@ -1,7 +1,29 @@
-import type { QAPair, SyntheticQAPair, ValidationResult } from '../types';
+import type {
+  QAPair,
+  SyntheticQAPair,
+  ValidationResult,
+  FineTuningGoalConfig,
+  JudgeConfig,
+  JudgeScore,
+  ConsensusMethod,
+} from '../types';
+import { DEFAULT_JUDGE_MODEL, CONSENSUS_PASS_SCORE, JUDGE_DISAGREEMENT_SPREAD, VALIDATION_TOKENS_PER_PAIR } from '../constants';
+import { goalService } from './goalService';
+import { promptService } from './promptService';
+import { markFailed, isFailed } from './runControlService';
+import { ConversationService } from './conversationService';
+import { ToolService } from './toolService';
+
+class TruncatedReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TruncatedReplyError';
+  }
+}
 
 class OpenRouterService {
-  private async makeRequest(messages: Array<{role: string, content: string}>, model = 'anthropic/claude-3-haiku'): Promise<any> {
+  /** Throws when the reply was cut off at `maxTokens`, since a truncated JSON array can't be parsed. */
+  private async makeRequest(messages: Array<{role: string, content: string}>, model: string, maxTokens: number, signal?: AbortSignal): Promise<any> {
     const response = await fetch('/.netlify/functions/openrouter-chat', {
       method: 'POST',
       headers: {
@@ -11,54 +33,153 @@ class OpenRouterService {
         model,
         messages,
         temperature: 0.7,
-        max_tokens: 2000
-      })
+        max_tokens: maxTokens
+      }),
+      signal
     });
 
     if (!response.ok) {
       throw new Error(`OpenRouter API request failed: ${response.status}`);
     }
 
-    return response.json();
+    const data = await response.json();
+    if (data.choices?.[0]?.finish_reason === 'length') {
+      throw new TruncatedReplyError(`${model} reply was cut off at ${maxTokens} tokens`);
+    }
+    return data;
   }
 
-  async validateQAPairs(pairs: (QAPair | SyntheticQAPair)[]): Promise<ValidationResult[]> {
+  /**
+   * Validates one batch of pairs. Results are matched back by pair id; pairs
+   * the model skipped get no result, and a failed request returns none at all,
+   * so callers can report them as failed rather than passed. A reply cut off
+   * at the token limit is retried as two smaller batches.
+   */
+  async validateQAPairs(
+    pairs: (QAPair | SyntheticQAPair)[],
+    goal: FineTuningGoalConfig,
+    signal?: AbortSignal,
+    model = DEFAULT_JUDGE_MODEL
+  ): Promise<ValidationResult[]> {
     const messages = [{
       role: 'user',
-      content: `Validate these Q&A pairs for quality and accuracy:
-
-${pairs.slice(0, 10).map((pair, i) => `${i + 1}. Q: ${pair.user}\nA: ${pair.model}`).join('\n\n')}
-
-Return JSON array with: pairId, isValid (boolean), accuracy (0-1), completeness (0-1), clarity (0-1), relevance (0-1), issues (array), suggestions (array).`
+      content: promptService.render('validation', {
+        goal: goalService.buildPromptContext(goal),
+        pairs: pairs.map(pair => `[${pair.id}]\n${ConversationService.describeHistory(pair)}Q: ${pair.user}\n${ToolService.describeSteps(pair)}A: ${pair.model}`).join('\n\n'),
+      })
     }];
 
     try {
-      const response = await this.makeRequest(messages);
-      const text = response.choices[0].message.content;
+      const response = await this.makeRequest(messages, model, VALIDATION_TOKENS_PER_PAIR * pairs.length, signal);
+      const text = response.choices?.[0]?.message?.content ?? '';
       const jsonMatch = text.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        const results = JSON.parse(jsonMatch[0]);
-        return results.map((result: any) => ({
-          pairId: result.pairId,
-          isValid: result.isValid,
-          confidence: result.accuracy,
-          reasoning: result.suggestions?.join('; ') || 'Validated',
-          factualAccuracy: result.accuracy,
-          relevanceScore: result.relevance
-        }));
+      if (!jsonMatch) {
+        throw new Error('Validation response contained no JSON array');
       }
+
+      const ids = new Set(pairs.map(pair => pair.id));
+      const results = JSON.parse(jsonMatch[0]);
+      return results
+        .filter((result: any) => ids.has(result.pairId) && typeof result.isValid === 'boolean')
+        .map((result: any): ValidationResult => {
+          const scores = [result.accuracy, result.completeness, result.clarity, result.relevance]
+            .filter((score: any): score is number => typeof score === 'number');
+          return {
+            pairId: result.pairId,
+            isValid: result.isValid,
+            confidence: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0,
+            reasoning: [...(result.issues || []), ...(result.suggestions || [])].join('; ') || 'Validated',
+            suggestedCorrection: typeof result.suggestedCorrection === 'string' ? result.suggestedCorrection : undefined,
+            factualAccuracy: typeof result.accuracy === 'number' ? result.accuracy : 0,
+            relevanceScore: typeof result.relevance === 'number' ? result.relevance : 0,
+          };
+        });
     } catch (error) {
-      console.error('Error validating pairs:', error instanceof Error ? error.message : 'Unknown error');
+      if (signal?.aborted) throw error;
+      if (error instanceof TruncatedReplyError && pairs.length > 1) {
+        console.warn(`${error.message}; retrying as two batches of ${Math.ceil(pairs.length / 2)} pairs`);
+        const half = Math.ceil(pairs.length / 2);
+        const first = await this.validateQAPairs(pairs.slice(0, half), goal, signal, model);
+        const second = await this.validateQAPairs(pairs.slice(half), goal, signal, model);
+        const results = [...first, ...second];
+        return isFailed(first) || isFailed(second) ? markFailed(results) : results;
+      }
+      console.error(`Error validating pairs with ${model}:`, error instanceof Error ? error.message : 'Unknown error');
     }
 
-    return pairs.map((_, index) => ({
-      pairId: `pair-${index}`,
-      isValid: true,
-      confidence: 0.8,
-      reasoning: 'Auto-validated',
-      factualAccuracy: 0.8,
-      relevanceScore: 0.8
-    }));
+    return markFailed([]);
+  }
+
+  /**
+   * Has every judge score the batch independently, then combines the verdicts.
+   * Pairs no judge could score are left out, like in validateQAPairs.
+   */
+  async validateWithJudges(
+    pairs: (QAPair | SyntheticQAPair)[],
+    goal: FineTuningGoalConfig,
+    judges: JudgeConfig[],
+    method: ConsensusMethod,
+    signal?: AbortSignal
+  ): Promise<Array<{ result: ValidationResult; judgeScores: JudgeScore[]; needsReview: boolean }>> {
+    const verdicts = await Promise.all(judges.map(judge => this.validateQAPairs(pairs, goal, signal, judge.model)));
+
+    const combined = pairs.flatMap(pair => {
+      const scored = judges
+        .map((judge, i) => ({ judge, result: verdicts[i].find(result => result.pairId === pair.id) }))
+        .filter((entry): entry is { judge: JudgeConfig; result: ValidationResult } => entry.result !== undefined);
+      if (scored.length === 0) return [];
+
+      return [this.combineVerdicts(pair.id, scored, method)];
+    });
+    // Retry the whole panel on resume if any judge's request failed
+    return verdicts.some(isFailed) ? markFailed(combined) : combined;
+  }
+
+  private combineVerdicts(
+    pairId: string,
+    scored: Array<{ judge: JudgeConfig; result: ValidationResult }>,
+    method: ConsensusMethod
+  ): { result: ValidationResult; judgeScores: JudgeScore[]; needsReview: boolean } {
+    const average = (values: number[], weights: number[]) => {
+      const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+      return totalWeight > 0 ? values.reduce((sum, value, i) => sum + value * weights[i], 0) / totalWeight : 0;
+    };
+    const results = scored.map(entry => entry.result);
+    const weights = method === 'weighted' ? scored.map(entry => Math.max(0, entry.judge.weight)) : scored.map(() => 1);
+    const confidence = average(results.map(result => result.confidence), weights);
+
+    const validVotes = results.filter(result => result.isValid).length;
+    const isValid = method === 'majority'
+      ? validVotes > results.length - validVotes
+      : confidence >= CONSENSUS_PASS_SCORE;
+
+    const confidences = results.map(result => result.confidence);
+    const needsReview = (validVotes > 0 && validVotes < results.length)
+      || Math.max(...confidences) - Math.min(...confidences) > JUDGE_DISAGREEMENT_SPREAD;
+
+    // The correction of the most confident judge that rejected the pair, if any
+    const correction = results
+      .filter(result => !result.isValid && result.suggestedCorrection)
+      .sort((a, b) => b.confidence - a.confidence)[0]?.suggestedCorrection;
+
+    return {
+      result: {
+        pairId,
+        isValid,
+        confidence,
+        reasoning: scored.map(({ judge, result }) => `${judge.model}: ${result.reasoning}`).join('\n'),
+        suggestedCorrection: correction,
+        factualAccuracy: average(results.map(result => result.factualAccuracy), weights),
+        relevanceScore: average(results.map(result => result.relevanceScore), weights),
+      },
+      judgeScores: scored.map(({ judge, result }) => ({
+        model: judge.model,
+        isValid: result.isValid,
+        confidence: result.confidence,
+        reasoning: result.reasoning,
+      })),
+      needsReview,
+    };
   }
 }
 
@@ -0,0 +1,242 @@
+import { PIPELINE_STAGES } from './pipelineStages';
+import type { StageContext } from './pipelineStages';
+import { checkpointService } from './checkpointService';
+import { RunController, isFailed } from './runControlService';
+import {
+  INCORRECT_ANSWER_RATIO,
+  UNANSWERABLE_RATIO,
+  DEDUP_SIMILARITY_THRESHOLD,
+  CONVERSATION_MAX_TURNS,
+  FAITHFULNESS_THRESHOLD,
+  DEFAULT_JUDGE_MODEL,
+  DEFAULT_PII_DETECTORS,
+  DEFAULT_SAFETY_CATEGORIES,
+  RAG_DISTRACTOR_COUNT,
+  DEFAULT_TOOLS,
+} from '../constants';
+import type {
+  PipelineStageConfig,
+  PipelineStageId,
+  PipelineState,
+  RunCheckpoint,
+  FineTuningGoalConfig,
+  GenerationOptions,
+  ProcessedData,
+  PipelineStageTiming,
+} from '../types';
+
+export interface PipelineRunHandlers {
+  onStatus: (status: string) => void;
+  onProgress: (progress: number) => void;
+  onTimeline: (timeline: PipelineStageTiming[]) => void;
+  /** Seconds left based on measured batch durations; undefined until a batch has been timed. */
+  onEstimate: (remainingSeconds: number | undefined, elapsedSeconds: number) => void;
+}
+
+const INITIAL_ARTIFACTS: Array<keyof PipelineState> = ['sources', 'chunks'];
+
+export const DEFAULT_PIPELINE: PipelineStageConfig[] = [
+  { key: 'themes', stageId: 'themes', enabled: true },
+  { key: 'research', stageId: 'research', enabled: true },
+  { key: 'generation', stageId: 'generation', enabled: true },
+  { key: 'synthesis', stageId: 'synthesis', enabled: true },
+  { key: 'validation', stageId: 'validation', enabled: true },
+  { key: 'repair', stageId: 'repair', enabled: true },
+  { key: 'faithfulness', stageId: 'faithfulness', enabled: true },
+  { key: 'unanswerable', stageId: 'unanswerable', enabled: true },
+  { key: 'deduplication', stageId: 'deduplication', enabled: true },
+  { key: 'classification', stageId: 'classification', enabled: true },
+  { key: 'augmentation', stageId: 'augmentation', enabled: true },
+  { key: 'translation', stageId: 'translation', enabled: true },
+  { key: 'reasoning', stageId: 'reasoning', enabled: true },
+  { key: 'negatives', stageId: 'negatives', enabled: true },
+  { key: 'safety', stageId: 'safety', enabled: true },
+  { key: 'context', stageId: 'context', enabled: true },
+  { key: 'compile', stageId: 'compile', enabled: true },
+];
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  mode: 'qa',
+  conversationTurns: CONVERSATION_MAX_TURNS,
+  reasoning: false,
+  tools: DEFAULT_TOOLS,
+  incorrectAnswerRatio: INCORRECT_ANSWER_RATIO,
+  unanswerableRatio: UNANSWERABLE_RATIO,
+  researchBackend: 'gemini',
+  dedupThreshold: DEDUP_SIMILARITY_THRESHOLD,
+  faithfulnessThreshold: FAITHFULNESS_THRESHOLD,
+  judges: [{ model: DEFAULT_JUDGE_MODEL, weight: 1 }],
+  consensusMethod: 'majority',
+  redaction: { enabled: true, mode: 'placeholder', detectors: DEFAULT_PII_DETECTORS },
+  safety: { categories: DEFAULT_SAFETY_CATEGORIES, action: 'drop', useModeration: true },
+  languages: { generation: 'source', targets: [], translations: [] },
+  augmentation: { selectionRatio: 0, paraphrasesPerQuestion: 2, noisyVariants: ['typos', 'casual', 'shortened'] },
+  rag: { enabled: false, distractorCount: RAG_DISTRACTOR_COUNT, order: 'shuffled' },
+  pipeline: DEFAULT_PIPELINE,
+};
+
+class PipelineService {
+  createStageEntry(stageId: PipelineStageId, existing: PipelineStageConfig[]): PipelineStageConfig {
+    let n = 1;
+    while (existing.some(entry => entry.key === `${stageId}-${n}`)) n++;
+    return { key: `${stageId}-${n}`, stageId, enabled: true };
+  }
+
+  /**
+   * Checks that every enabled stage has its inputs produced by an earlier stage
+   * and that the locked compile stage runs last. Returns one message per problem.
+   */
+  validatePipeline(pipeline: PipelineStageConfig[]): string[] {
+    const errors: string[] = [];
+    const available = new Set<keyof PipelineState>(INITIAL_ARTIFACTS);
+    const seen = new Set<PipelineStageId>();
+    const enabled = pipeline.filter(entry => entry.enabled);
+
+    enabled.forEach((entry, index) => {
+      const stage = PIPELINE_STAGES[entry.stageId];
+      if (!stage) {
+        errors.push(`Unknown stage "${entry.stageId}"`);
+        return;
+      }
+
+      const missing = stage.inputs.filter(input => !available.has(input));
+      if (missing.length > 0) {
+        errors.push(`${stage.name} needs ${missing.join(', ')} from an earlier stage`);
+      }
+      if (seen.has(stage.id) && !stage.repeatable) {
+        errors.push(`${stage.name} can only run once`);
+      }
+      if (stage.locked && index !== enabled.length - 1) {
+        errors.push(`${stage.name} must be the last stage`);
+      }
+
+      seen.add(stage.id);
+      stage.outputs.forEach(output => available.add(output));
+    });
+
+    if (!enabled.some(entry => PIPELINE_STAGES[entry.stageId]?.locked)) {
+      errors.push(`${PIPELINE_STAGES.compile.name} must be enabled`);
+    }
+
+    return errors;
+  }
+
+  async run(
+    initialState: PipelineState,
+    goal: FineTuningGoalConfig,
+    options: GenerationOptions,
+    controller: RunController,
+    checkpoint: RunCheckpoint,
+    handlers: PipelineRunHandlers
+  ): Promise<ProcessedData> {
+    const errors = this.validatePipeline(options.pipeline);
+    if (errors.length > 0) {
+      throw new Error(`Invalid pipeline: ${errors.join('; ')}`);
+    }
+
+    const entries = options.pipeline.filter(entry => entry.enabled);
+    let state: PipelineState = { ...initialState };
+    let completedWork = 0;
+
+    const startedAt = Date.now();
+    let timedBatches = 0;
+    let timedMs = 0;
+    let firstFailedStage: number | null = null; // Index of the first stage with a failed batch
+    const timeline: PipelineStageTiming[] = entries.map(entry => ({
+      key: entry.key,
+      name: PIPELINE_STAGES[entry.stageId].name,
+      status: 'pending',
+    }));
+    const updateTimeline = (index: number, changes: Partial<PipelineStageTiming>) => {
+      timeline[index] = { ...timeline[index], ...changes };
+      handlers.onTimeline([...timeline]);
+    };
+    handlers.onTimeline([...timeline]);
+
+    // Progress is finished work over finished plus estimated remaining work,
+    // re-estimated as earlier stages produce the artifacts later ones depend on.
+    // The ETA prices the remaining work at the average measured batch duration.
+    const reportProgress = (fromIndex: number, stageWorkDone: number) => {
+      const remaining = entries
+        .slice(fromIndex)
+        .reduce((sum, entry) => sum + PIPELINE_STAGES[entry.stageId].estimateWork(state), 0);
+      const total = completedWork + Math.max(remaining, stageWorkDone + 1);
+      const done = completedWork + stageWorkDone;
+      handlers.onProgress(Math.min(99, (done / total) * 100));
+      handlers.onEstimate(
+        timedBatches > 0 ? Math.round(((total - done) * timedMs) / timedBatches / 1000) : undefined,
+        Math.round((Date.now() - startedAt) / 1000)
+      );
+    };
+
+    for (let index = 0; index < entries.length; index++) {
+      const entry = entries[index];
+      const stage = PIPELINE_STAGES[entry.stageId];
+      await controller.waitWhilePaused();
+
+      if (entry.key in checkpoint.stages) {
+        state = { ...state, ...(checkpoint.stages[entry.key] as Partial<PipelineState>) };
+        completedWork += stage.estimateWork(state);
+        updateTimeline(index, { status: 'restored' });
+        reportProgress(index + 1, 0);
+        continue;
+      }
+
+      let stageWorkDone = 0;
+      const context: StageContext = {
+        goal,
+        options,
+        runBatch: async <T,>(key: string, task: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+          const batchKey = `${entry.key}:${key}`;
+          let result: T;
+          if (batchKey in checkpoint.batches) {
+            result = checkpoint.batches[batchKey] as T;
+          } else {
+            let duration = 0;
+            // Time only the attempt that completes, so pauses don't skew the estimate
+            result = await controller.run(async signal => {
+              const batchStart = performance.now();
+              const value = await task(signal);
+              duration = performance.now() - batchStart;
+              return value;
+            });
+            timedBatches++;
+            timedMs += duration;
+            // A failed batch is used for this run only; resuming requests it again.
+            // Later stages built on its fallback are not saved either, so they rerun too.
+            if (isFailed(result)) {
+              firstFailedStage ??= index;
+            } else if (firstFailedStage === null || firstFailedStage === index) {
+              checkpoint.batches[batchKey] = result;
+              await checkpointService.save(checkpoint);
+            }
+          }
+          stageWorkDone++;
+          reportProgress(index, stageWorkDone);
+          return result;
+        },
+        waitWhilePaused: () => controller.waitWhilePaused(),
+        setStatus: handlers.onStatus,
+      };
+
+      updateTimeline(index, { status: 'running', startedAt: Date.now() });
+      reportProgress(index, 0);
+      const outputs = await stage.run(state, context);
+      state = { ...state, ...outputs };
+      completedWork += stageWorkDone;
+      updateTimeline(index, { status: 'done', finishedAt: Date.now() });
+
+      if (firstFailedStage === null) {
+        checkpoint.stages[entry.key] = outputs;
+        await checkpointService.save(checkpoint);
+      }
+    }
+
+    if (!state.processedData) {
+      throw new Error('Pipeline finished without compiling a dataset');
+    }
+    return state.processedData;
+  }
+}
+
+export const pipelineService = new PipelineService();
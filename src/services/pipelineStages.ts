@@ -0,0 +1,851 @@
+import { geminiService } from './geminiService';
+import { openRouterService } from './openRouterService';
+import { ChunkingService } from './chunkingService';
+import { searchService } from './searchService';
+import { DeduplicationService } from './deduplicationService';
+import { promptService } from './promptService';
+import { ConversationService } from './conversationService';
+import { SafetyService } from './safetyService';
+import { LanguageService } from './languageService';
+import { RagService } from './ragService';
+import { ToolService } from './toolService';
+import { markFailed } from './runControlService';
+import {
+  QA_PAIR_COUNT_TARGET,
+  QA_GENERATION_BATCH_SIZE,
+  MAX_GENERATION_ROUNDS,
+  SYNTHETIC_QA_TARGET,
+  RESEARCH_MAX_THEMES,
+  RESEARCH_QUERIES_PER_THEME,
+  RESEARCH_PASSAGES_PER_QUERY,
+  RESEARCH_PASSAGES_PER_BATCH,
+  RESEARCH_PASSAGE_MAX_LENGTH,
+  CONVERSATION_COUNT_TARGET,
+  CONVERSATION_BATCH_SIZE,
+  CLASSIFICATION_BATCH_SIZE,
+  GENERATION_EXAMPLE_COUNT,
+  VALIDATION_BATCH_SIZE,
+  FAITHFULNESS_BATCH_SIZE,
+  FAITHFULNESS_CONTEXT_LENGTH,
+  SAFETY_BATCH_SIZE,
+  TRANSLATION_BATCH_SIZE,
+  AUGMENTATION_BATCH_SIZE,
+  UNANSWERABLE_BATCH_SIZE,
+  UNANSWERABLE_RATIO,
+  REASONING_BATCH_SIZE,
+  INCORRECT_ANSWER_RATIO,
+  SYNTHETIC_MAX_PASSES,
+  INCORRECT_ANSWER_BATCH_SIZE,
+  REASONING_ATTEMPTS,
+  TOOL_CONVERSATION_COUNT_TARGET,
+  TOOL_CONVERSATION_BATCH_SIZE,
+} from '../constants';
+import type {
+  PipelineStageId,
+  PipelineState,
+  FineTuningGoalConfig,
+  GenerationOptions,
+  QAPair,
+  SyntheticQAPair,
+  KnowledgeGap,
+  ContentChunk,
+  ResearchPassage,
+  PairClassification,
+  ValidationResult,
+  JudgeScore,
+  SafetyFlag,
+  ReasoningCheck,
+} from '../types';
+
+export interface StageContext {
+  goal: FineTuningGoalConfig;
+  options: GenerationOptions;
+  /** Runs one model call, or returns its checkpointed result when resuming. Counts as one unit of work. */
+  runBatch: <T>(key: string, task: (signal: AbortSignal) => Promise<T>) => Promise<T>;
+  /** Waits while the run is paused; throws once it is cancelled. */
+  waitWhilePaused: () => Promise<void>;
+  setStatus: (status: string) => void;
+}
+
+export interface PipelineStage {
+  id: PipelineStageId;
+  name: string;
+  description: string;
+  inputs: Array<keyof PipelineState>;
+  outputs: Array<keyof PipelineState>;
+  repeatable: boolean;
+  locked?: boolean; // Always enabled and always last
+  /** Expected number of model calls, used to weight progress. `state` may lack outputs of earlier stages. */
+  estimateWork: (state: PipelineState) => number;
+  run: (state: PipelineState, context: StageContext) => Promise<Partial<PipelineState>>;
+}
+
+type ChunkGenerator = (
+  chunk: ContentChunk,
+  count: number,
+  research: ResearchPassage[],
+  examples: QAPair[],
+  language: string | undefined, // Undefined writes in the chunk's own language
+  signal: AbortSignal
+) => Promise<QAPair[]>;
+
+/** Language of the nth generation batch: the target languages in turn, or undefined for the source language. */
+function batchLanguage(context: StageContext, batchNumber: number): string | undefined {
+  const { generation, targets } = context.options.languages;
+  return generation === 'targets' && targets.length > 0 ? targets[batchNumber % targets.length] : undefined;
+}
+
+/**
+ * Spreads generation across every chunk, one chunk per batch, and keeps
+ * making passes until the target is reached or a pass yields nothing.
+ */
+async function generatePairsFromChunks(
+  chunks: ContentChunk[],
+  research: ResearchPassage[],
+  context: StageContext,
+  generate: ChunkGenerator,
+  target: number,
+  batchSize: number
+): Promise<QAPair[]> {
+  const pairs: QAPair[] = [];
+  const pairsByChunk = new Map<number, QAPair[]>();
+  let batchNumber = 0;
+
+  for (let round = 0; round < MAX_GENERATION_ROUNDS && pairs.length < target; round++) {
+    const remaining = target - pairs.length;
+    const roundChunks = ChunkingService.selectEvenly(chunks, Math.min(chunks.length, remaining), round);
+    const perChunk = Math.min(batchSize, Math.ceil(remaining / roundChunks.length));
+    let added = 0;
+
+    for (const chunk of roundChunks) {
+      const needed = target - pairs.length;
+      if (needed <= 0) break;
+
+      const chunkIndex = chunks.indexOf(chunk);
+      const passages = selectResearchFor(chunk, research);
+      // Later passes over a chunk see what it already produced, so they don't repeat it
+      const examples = (pairsByChunk.get(chunkIndex) || []).slice(-GENERATION_EXAMPLE_COUNT);
+      const language = batchLanguage(context, batchNumber++);
+      const batch = await context.runBatch(`generation-${round}-${chunkIndex}`, signal =>
+        generate(chunk, Math.min(perChunk, needed), passages, examples, language, signal)
+      );
+      pairsByChunk.set(chunkIndex, [...(pairsByChunk.get(chunkIndex) || []), ...batch]);
+      pairs.push(...batch);
+      added += batch.length;
+    }
+
+    if (added === 0) break;
+  }
+
+  return pairs;
+}
+
+/** Single Q&A pairs, multi-turn conversations or tool-use exchanges, depending on the generation mode. */
+function generationPlan(state: PipelineState, context: StageContext): { target: number; batchSize: number; generate: ChunkGenerator } {
+  const themes = state.themes || [];
+  if (context.options.mode === 'tools') {
+    const tools = ToolService.usableTools(context.options.tools);
+    if (tools.length === 0) {
+      throw new Error('Tool-calling mode needs at least one enabled tool with a valid schema');
+    }
+    return {
+      target: TOOL_CONVERSATION_COUNT_TARGET,
+      batchSize: TOOL_CONVERSATION_BATCH_SIZE,
+      generate: (chunk, count, research, _examples, language, signal) =>
+        geminiService.generateToolConversations(chunk, themes, context.goal, tools, count, research, language, signal),
+    };
+  }
+  if (context.options.mode === 'conversation') {
+    return {
+      target: CONVERSATION_COUNT_TARGET,
+      batchSize: CONVERSATION_BATCH_SIZE,
+      generate: (chunk, count, research, _examples, language, signal) =>
+        geminiService.generateConversations(chunk, themes, context.goal, count, context.options.conversationTurns, research, language, signal),
+    };
+  }
+  return {
+    target: QA_PAIR_COUNT_TARGET,
+    batchSize: QA_GENERATION_BATCH_SIZE,
+    generate: (chunk, count, research, examples, language, signal) =>
+      geminiService.generateQAPairs(chunk, themes, context.goal, count, research, examples, language, signal),
+  };
+}
+
+function selectResearchFor(chunk: ContentChunk, research: ResearchPassage[]): ResearchPassage[] {
+  return research
+    .map(passage => ({ passage, score: ChunkingService.termOverlap(chunk.text, `${passage.theme} ${passage.text}`) }))
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, RESEARCH_PASSAGES_PER_BATCH)
+    .map(entry => entry.passage);
+}
+
+async function researchThemes(themes: string[], chunks: ContentChunk[], context: StageContext): Promise<ResearchPassage[]> {
+  context.setStatus('Planning web research queries...');
+  const plan = await context.runBatch('queries', signal =>
+    geminiService.generateResearchQueries(themes, context.goal, RESEARCH_QUERIES_PER_THEME, signal)
+  );
+
+  const backend = searchService.createBackend(context.options.researchBackend, chunks, RESEARCH_PASSAGES_PER_QUERY);
+  const passages: ResearchPassage[] = [];
+  const seenUris = new Set<string>();
+
+  for (const { theme, queries } of plan) {
+    for (const query of queries) {
+      context.setStatus(`Performing web research for "${theme}"...`);
+      // A failed search only loses its own passages; it should not fail the run
+      const results = await context.runBatch(`search-${theme}-${query}`, signal =>
+        backend.search(query, signal).catch(error => {
+          if (signal.aborted) throw error;
+          console.warn(`[RESEARCH] Search failed for "${query}":`, error);
+          return markFailed([]);
+        })
+      );
+
+      results
+        .filter(result => !seenUris.has(result.uri))
+        .slice(0, RESEARCH_PASSAGES_PER_QUERY)
+        .forEach(result => {
+          seenUris.add(result.uri);
+          passages.push({
+            ...result,
+            id: `research-${passages.length + 1}`,
+            text: result.text.substring(0, RESEARCH_PASSAGE_MAX_LENGTH),
+            theme,
+            query,
+          });
+        });
+    }
+  }
+
+  return passages;
+}
+
+type JudgeVerdict = { result: ValidationResult; judgeScores: JudgeScore[]; needsReview: boolean };
+
+async function validateWithJudges(
+  pairs: QAPair[],
+  context: StageContext,
+  batchPrefix: string,
+  status: string
+): Promise<Map<string, JudgeVerdict>> {
+  const verdicts = new Map<string, JudgeVerdict>();
+  const judges = context.options.judges;
+
+  for (let start = 0; start < pairs.length; start += VALIDATION_BATCH_SIZE) {
+    context.setStatus(`${status} with ${judges.length} judge${judges.length === 1 ? '' : 's'} (${start + 1}-${Math.min(start + VALIDATION_BATCH_SIZE, pairs.length)} of ${pairs.length})...`);
+    const batch = pairs.slice(start, start + VALIDATION_BATCH_SIZE);
+    const validated = await context.runBatch(`${batchPrefix}-${start}`, signal =>
+      openRouterService.validateWithJudges(batch, context.goal, judges, context.options.consensusMethod, signal)
+    );
+    validated.forEach(entry => verdicts.set(entry.result.pairId!, entry));
+  }
+
+  const failedCount = pairs.filter(pair => !verdicts.has(pair.id)).length;
+  if (failedCount > 0) {
+    console.warn(`[VALIDATION] ${failedCount} of ${pairs.length} pairs could not be validated`);
+  }
+  return verdicts;
+}
+
+/** A missing verdict means validation failed for the pair, which must not read as a pass. */
+function applyVerdict(pair: QAPair, verdict: JudgeVerdict | undefined): QAPair {
+  if (!verdict) {
+    return {
+      ...pair,
+      validationStatus: 'failed',
+      validationConfidence: undefined,
+      validation: undefined,
+      judgeScores: undefined,
+      needsReview: undefined,
+    };
+  }
+  return {
+    ...pair,
+    validationStatus: verdict.result.isValid ? 'validated' : 'rejected',
+    validationConfidence: verdict.result.confidence,
+    validation: verdict.result,
+    judgeScores: verdict.judgeScores,
+    needsReview: verdict.needsReview,
+  };
+}
+
+/** Replaces the answer, keeping the generated text and recording the edit. */
+function applyCorrection(pair: QAPair, correction: string, reason: string): QAPair {
+  return {
+    ...pair,
+    model: correction,
+    ...(ConversationService.isConversation(pair) && { turns: ConversationService.withFinalAnswer(pair.turns, correction) }),
+    original: pair.original ?? { user: pair.user, model: pair.model },
+    edits: [...(pair.edits || []), {
+      stage: 'repair',
+      field: 'model',
+      before: pair.model,
+      after: correction,
+      reason,
+      editedAt: Date.now(),
+    }],
+  };
+}
+
+/** The cited span of a pair plus surrounding context, kept within the chunk it came from. */
+function supportingPassage(pair: QAPair, state: PipelineState): string | undefined {
+  const attribution = pair.attribution;
+  if (!attribution) return undefined;
+  const source = state.sources.find(s => s.id === attribution.sourceId);
+  const chunk = state.chunks.find(c => c.sourceId === attribution.sourceId && c.index === attribution.chunkIndex);
+  if (!source || !chunk) return undefined;
+
+  const start = Math.max(chunk.start, attribution.start - FAITHFULNESS_CONTEXT_LENGTH);
+  const end = Math.min(chunk.end, attribution.end + FAITHFULNESS_CONTEXT_LENGTH);
+  return source.content.slice(start, end);
+}
+
+async function generateSyntheticPairs(
+  chunks: ContentChunk[],
+  gaps: KnowledgeGap[],
+  context: StageContext
+): Promise<SyntheticQAPair[]> {
+  const syntheticPairs: SyntheticQAPair[] = [];
+  let batchNumber = 0;
+
+  // Batches are capped and can come back short, so plan again for whatever is still missing
+  for (let pass = 0; pass < SYNTHETIC_MAX_PASSES && syntheticPairs.length < SYNTHETIC_QA_TARGET; pass++) {
+    const before = syntheticPairs.length;
+    for (const { gap, count } of geminiService.planSyntheticBatches(gaps, SYNTHETIC_QA_TARGET - syntheticPairs.length)) {
+      const language = batchLanguage(context, batchNumber++);
+      const batch = await context.runBatch(pass === 0 ? `synthesis-${gap.id}` : `synthesis-${pass}-${gap.id}`, signal =>
+        geminiService.generateSyntheticQAPairs(chunks, gap, context.goal, count, language, signal)
+      );
+      syntheticPairs.push(...batch);
+    }
+    if (syntheticPairs.length === before) break;
+  }
+
+  return syntheticPairs;
+}
+
+export const PIPELINE_STAGES: Record<PipelineStageId, PipelineStage> = {
+  themes: {
+    id: 'themes',
+    name: 'Theme Identification',
+    description: 'Identify the key themes across all sources',
+    inputs: ['chunks'],
+    outputs: ['themes'],
+    repeatable: false,
+    estimateWork: () => 1,
+    run: async (state, context) => {
+      context.setStatus('Processing content and identifying themes...');
+      const themes = await context.runBatch('themes', signal =>
+        geminiService.identifyThemes(state.chunks, context.goal, signal)
+      );
+      return { themes };
+    },
+  },
+
+  research: {
+    id: 'research',
+    name: 'Web Research',
+    description: 'Search the web for each theme and use the passages as extra generation context',
+    inputs: ['themes'],
+    outputs: ['researchPassages', 'groundingMetadata'],
+    repeatable: false,
+    estimateWork: state => 1 + Math.min(state.themes?.length ?? RESEARCH_MAX_THEMES, RESEARCH_MAX_THEMES) * RESEARCH_QUERIES_PER_THEME,
+    run: async (state, context) => {
+      const themes = (state.themes || []).slice(0, RESEARCH_MAX_THEMES);
+      if (themes.length === 0) {
+        return { researchPassages: [] };
+      }
+
+      const passages = await researchThemes(themes, state.chunks, context);
+      return {
+        researchPassages: passages,
+        groundingMetadata: {
+          groundingChunks: passages.map(passage => ({ web: { uri: passage.uri, title: passage.title } })),
+          webSearchQueries: [...new Set(passages.map(passage => passage.query))],
+        },
+      };
+    },
+  },
+
+  generation: {
+    id: 'generation',
+    name: 'Q&A Generation',
+    description: 'Generate Q&A pairs or multi-turn conversations from every content chunk',
+    inputs: ['chunks'],
+    outputs: ['pairs'],
+    repeatable: true,
+    estimateWork: state => Math.max(1, Math.min(state.chunks.length, QA_PAIR_COUNT_TARGET)),
+    run: async (state, context) => {
+      const { target, batchSize, generate } = generationPlan(state, context);
+      const kind = { qa: 'Q&A pairs', conversation: 'conversations', tools: 'tool-use exchanges' }[context.options.mode];
+      context.setStatus(`Generating ${kind} from ${state.chunks.length} content chunks...`);
+      const generated = await generatePairsFromChunks(state.chunks, state.researchPassages || [], context, generate, target, batchSize);
+      if (generated.length === 0) {
+        throw new Error('Failed to generate Q&A pairs: the model returned no usable pairs');
+      }
+      return { pairs: [...(state.pairs || []), ...generated] };
+    },
+  },
+
+  synthesis: {
+    id: 'synthesis',
+    name: 'Gap Synthesis',
+    description: 'Find knowledge gaps in the generated pairs and fill them with synthetic pairs',
+    inputs: ['chunks', 'pairs'],
+    outputs: ['pairs', 'identifiedGaps'],
+    repeatable: true,
+    estimateWork: () => 1 + Math.ceil(SYNTHETIC_QA_TARGET / QA_GENERATION_BATCH_SIZE),
+    run: async (state, context) => {
+      const pairs = state.pairs || [];
+      context.setStatus('Analyzing knowledge gaps...');
+      const gaps = await context.runBatch('gaps', signal =>
+        geminiService.identifyKnowledgeGaps(state.chunks, state.themes || [], pairs, context.goal, signal)
+      );
+
+      context.setStatus('Generating synthetic Q&A pairs...');
+      const syntheticPairs = await generateSyntheticPairs(state.chunks, gaps, context);
+      return {
+        pairs: [...pairs, ...syntheticPairs],
+        identifiedGaps: [...(state.identifiedGaps || []), ...gaps],
+      };
+    },
+  },
+
+  validation: {
+    id: 'validation',
+    name: 'Validation',
+    description: 'Score every pair for quality and accuracy with a panel of judge models',
+    inputs: ['pairs'],
+    outputs: ['pairs'],
+    repeatable: true,
+    estimateWork: state => Math.max(1, Math.ceil((state.pairs?.length ?? QA_PAIR_COUNT_TARGET) / VALIDATION_BATCH_SIZE)),
+    run: async (state, context) => {
+      const pairs = state.pairs || [];
+      // Incorrect answers are wrong on purpose; judging them would only reject them
+      const correctPairs = pairs.filter(pair => pair.isCorrect);
+      const verdicts = await validateWithJudges(correctPairs, context, 'validation', 'Validating Q&A pairs');
+      return {
+        pairs: pairs.map(pair => (pair.isCorrect ? applyVerdict(pair, verdicts.get(pair.id)) : pair)),
+      };
+    },
+  },
+
+  repair: {
+    id: 'repair',
+    name: 'Repair',
+    description: "Rewrite rejected answers with the judges' suggested correction and validate them again",
+    inputs: ['pairs'],
+    outputs: ['pairs'],
+    repeatable: true,
+    estimateWork: state => {
+      const fixable = state.pairs?.filter(pair => pair.validationStatus === 'rejected' && pair.validation?.suggestedCorrection).length;
+      return Math.max(1, Math.ceil((fixable ?? QA_PAIR_COUNT_TARGET / 10) / VALIDATION_BATCH_SIZE));
+    },
+    run: async (state, context) => {
+      const pairs = state.pairs || [];
+      const repaired = pairs
+        .filter(pair => pair.isCorrect && pair.validationStatus === 'rejected' && pair.validation?.suggestedCorrection)
+        .map(pair => applyCorrection(pair, pair.validation!.suggestedCorrection!, pair.validation!.reasoning));
+      if (repaired.length === 0) {
+        return { pairs };
+      }
+
+      const verdicts = await validateWithJudges(repaired, context, 'revalidation', 'Re-validating repaired pairs');
+      const repairedById = new Map(repaired.map(pair => [pair.id, applyVerdict(pair, verdicts.get(pair.id))]));
+      return {
+        pairs: pairs.map(pair => repairedById.get(pair.id) ?? pair),
+      };
+    },
+  },
+
+  faithfulness: {
+    id: 'faithfulness',
+    name: 'Faithfulness Check',
+    description: 'Compare every answer with its source passage and reject pairs with unsupported claims',
+    inputs: ['pairs'],
+    outputs: ['pairs'],
+    repeatable: true,
+    estimateWork: state => Math.max(1, Math.ceil((state.pairs?.length ?? QA_PAIR_COUNT_TARGET) / FAITHFULNESS_BATCH_SIZE)),
+    run: async (state, context) => {
+      context.setStatus('Checking answers against their source passages...');
+      const pairs = state.pairs || [];
+      const items = pairs
+        .filter(pair => pair.isCorrect)
+        .map(pair => ({ pair, passage: supportingPassage(pair, state) }))
+        .filter((item): item is { pair: QAPair; passage: string } => item.passage !== undefined);
+      const results = new Map<string, ValidationResult>();
+
+      for (let start = 0; start < items.length; start += FAITHFULNESS_BATCH_SIZE) {
+        const batch = items.slice(start, start + FAITHFULNESS_BATCH_SIZE);
+        const verified = await context.runBatch(`faithfulness-${start}`, signal =>
+          geminiService.verifyFaithfulness(batch, context.options.faithfulnessThreshold, signal)
+        );
+        verified.forEach(result => results.set(result.pairId!, result));
+      }
+
+      return {
+        pairs: pairs.map(pair => {
+          const result = results.get(pair.id);
+          if (!result) return pair;
+          return {
+            ...pair,
+            faithfulness: result,
+            ...(!result.isValid && { validationStatus: 'rejected' as const }),
+          };
+        }),
+      };
+    },
+  },
+
+  unanswerable: {
+    id: 'unanswerable',
+    name: 'Unanswerable Questions',
+    description: "Add out-of-scope and unanswerable questions with refusals in the goal's answer style",
+    inputs: ['chunks', 'pairs'],
+    outputs: ['pairs'],
+    repeatable: false,
+    estimateWork: state => Math.max(1, Math.ceil((state.pairs?.length ?? QA_PAIR_COUNT_TARGET) * UNANSWERABLE_RATIO / UNANSWERABLE_BATCH_SIZE)),
+    run: async (state, context) => {
+      const pairs = state.pairs || [];
+      const ratio = Math.min(context.options.unanswerableRatio, 0.9);
+      const answerable = pairs.filter(pair => pair.isCorrect && pair.source !== 'unanswerable').length;
+      // Refusals make up `ratio` of the correct pairs once they are added
+      const target = Math.round(answerable * ratio / (1 - ratio));
+      const refusals: QAPair[] = [];
+
+      context.setStatus('Writing unanswerable questions...');
+      for (let batchNumber = 0; refusals.length < target; batchNumber++) {
+        const count = Math.min(UNANSWERABLE_BATCH_SIZE, target - refusals.length);
+        const language = batchLanguage(context, batchNumber);
+        const batch = await context.runBatch(`unanswerable-${batchNumber}`, signal =>
+          geminiService.generateUnanswerableQuestions(state.chunks, state.themes || [], context.goal, count, refusals, language, signal)
+        );
+        if (batch.length === 0) break;
+        refusals.push(...batch);
+      }
+
+      return { pairs: [...pairs, ...refusals] };
+    },
+  },
+
+  deduplication: {
+    id: 'deduplication',
+    name: 'Deduplication',
+    description: 'Merge repeated and reworded questions, keeping the best-scoring pair of each cluster',
+    inputs: ['pairs'],
+    outputs: ['pairs', 'duplicateClusters'],
+    repeatable: true,
+    estimateWork: () => 1,
+    run: async (state, context) => {
+      context.setStatus('Removing duplicate Q&A pairs...');
+      const { pairs, clusters } = DeduplicationService.deduplicate(state.pairs || [], context.options.dedupThreshold);
+      return {
+        pairs,
+        duplicateClusters: [...(state.duplicateClusters || []), ...clusters],
+      };
+    },
+  },
+
+  classification: {
+    id: 'classification',
+    name: 'Classification',
+    description: 'Tag every pair with its difficulty, theme and question type',
+    inputs: ['pairs'],
+    outputs: ['pairs'],
+    repeatable: true,
+    estimateWork: state => Math.max(1, Math.ceil((state.pairs?.length ?? QA_PAIR_COUNT_TARGET) / CLASSIFICATION_BATCH_SIZE)),
+    run: async (state, context) => {
+      context.setStatus('Classifying Q&A pairs...');
+      const pairs = state.pairs || [];
+      const correctPairs = pairs.filter(pair => pair.isCorrect);
+      const classifications = new Map<string, PairClassification>();
+
+      for (let start = 0; start < correctPairs.length; start += CLASSIFICATION_BATCH_SIZE) {
+        const batch = correctPairs.slice(start, start + CLASSIFICATION_BATCH_SIZE);
+        const results = await context.runBatch(`classify-${start}`, signal =>
+          geminiService.classifyQAPairs(batch, state.themes || [], context.goal, signal)
+        );
+        results.forEach(result => classifications.set(result.pairId, result));
+      }
+
+      // Incorrect answers share the tags of the pair they contradict
+      return {
+        pairs: pairs.map(pair => {
+          const result = classifications.get(pair.isCorrect ? pair.id : pair.correctPairId ?? '');
+          return result ? {
+            ...pair,
+            difficulty: result.difficulty,
+            theme: result.theme,
+            questionType: result.questionType,
+          } : pair;
+        }),
+      };
+    },
+  },
+
+  augmentation: {
+    id: 'augmentation',
+    name: 'Question Variants',
+    description: 'Add paraphrased and noisy versions of selected questions that share the original answer',
+    inputs: ['pairs'],
+    outputs: ['pairs'],
+    repeatable: false,
+    estimateWork: state => Math.max(1, Math.ceil((state.pairs?.length ?? QA_PAIR_COUNT_TARGET) / AUGMENTATION_BATCH_SIZE)),
+    run: async (state, context) => {
+      const pairs = state.pairs || [];
+      const { selectionRatio, paraphrasesPerQuestion, noisyVariants } = context.options.augmentation;
+      // Variants of rejected or already-derived pairs would only multiply their problems
+      const candidates = pairs.filter(pair =>
+        pair.isCorrect && !pair.parentPairId && !pair.translationOf && pair.validationStatus !== 'rejected'
+      );
+      const count = Math.min(candidates.length, Math.round(candidates.length * selectionRatio));
+      if (count === 0 || (paraphrasesPerQuestion === 0 && noisyVariants.length === 0)) {
+        return { pairs };
+      }
+
+      context.setStatus('Writing question variants...');
+      // Spread the selection evenly so every source and theme is represented
+      const step = candidates.length / count;
+      const selected = Array.from({ length: count }, (_, i) => candidates[Math.floor(i * step)]);
+      const variants: QAPair[] = [];
+
+      for (let start = 0; start < selected.length; start += AUGMENTATION_BATCH_SIZE) {
+        const batch = selected.slice(start, start + AUGMENTATION_BATCH_SIZE);
+        variants.push(...await context.runBatch(`variants-${start}`, signal =>
+          geminiService.generateQuestionVariants(batch, paraphrasesPerQuestion, noisyVariants, signal)
+        ));
+      }
+
+      return { pairs: [...pairs, ...variants] };
+    },
+  },
+
+  translation: {
+    id: 'translation',
+    name: 'Translation',
+    description: 'Add translated copies of every correct pair in the chosen translation languages',
+    inputs: ['pairs'],
+    outputs: ['pairs'],
+    repeatable: false,
+    estimateWork: state => Math.max(1, Math.ceil((state.pairs?.length ?? QA_PAIR_COUNT_TARGET) / TRANSLATION_BATCH_SIZE)),
+    run: async (state, context) => {
+      const pairs = state.pairs || [];
+      const translated: QAPair[] = [];
+
+      for (const language of context.options.languages.translations) {
+        context.setStatus(`Translating Q&A pairs to ${LanguageService.name(language)}...`);
+        // Only originals are translated; translations of translations would drift.
+        // Rejected and unvalidated pairs are skipped, since the export leaves them out.
+        const candidates = pairs.filter(pair =>
+          pair.isCorrect && !pair.translationOf && !pair.parentPairId && pair.language !== language
+          && pair.validationStatus !== 'rejected' && pair.validationStatus !== 'failed'
+        );
+        for (let start = 0; start < candidates.length; start += TRANSLATION_BATCH_SIZE) {
+          const batch = candidates.slice(start, start + TRANSLATION_BATCH_SIZE);
+          translated.push(...await context.runBatch(`translation-${language}-${start}`, signal =>
+            geminiService.translatePairs(batch, language, signal)
+          ));
+        }
+      }
+
+      return { pairs: [...pairs, ...translated] };
+    },
+  },
+
+  reasoning: {
+    id: 'reasoning',
+    name: 'Reasoning Traces',
+    description: 'Write a step-by-step rationale for every correct answer and keep those consistent with it',
+    inputs: ['pairs'],
+    outputs: ['pairs'],
+    repeatable: false,
+    estimateWork: state => Math.max(1, Math.ceil((state.pairs?.length ?? QA_PAIR_COUNT_TARGET) * 2 / REASONING_BATCH_SIZE)),
+    run: async (state, context) => {
+      const pairs = state.pairs || [];
+      if (!context.options.reasoning) return { pairs };
+
+      const accepted = new Map<string, string>();
+      const checks = new Map<string, ReasoningCheck>();
+      let pending = pairs.filter(pair => pair.isCorrect);
+
+      for (let attempt = 0; attempt < REASONING_ATTEMPTS && pending.length > 0; attempt++) {
+        context.setStatus(attempt === 0 ? 'Writing reasoning traces...' : 'Rewriting inconsistent reasoning traces...');
+        const drafts: QAPair[] = [];
+        for (let start = 0; start < pending.length; start += REASONING_BATCH_SIZE) {
+          const batch = pending.slice(start, start + REASONING_BATCH_SIZE);
+          const results = await context.runBatch(`reasoning-${attempt}-${start}`, signal =>
+            geminiService.generateReasoning(batch.map(pair => ({ pair, passage: supportingPassage(pair, state) })), context.goal, signal)
+          );
+          results.forEach(({ pairId, reasoning }) => {
+            const pair = batch.find(p => p.id === pairId);
+            if (pair) drafts.push({ ...pair, reasoning });
+          });
+        }
+
+        context.setStatus('Checking reasoning against the final answers...');
+        for (let start = 0; start < drafts.length; start += REASONING_BATCH_SIZE) {
+          const batch = drafts.slice(start, start + REASONING_BATCH_SIZE);
+          const results = await context.runBatch(`reasoning-check-${attempt}-${start}`, signal =>
+            geminiService.checkReasoning(batch, signal)
+          );
+          results.forEach(({ pairId, check }) => checks.set(pairId, check));
+        }
+
+        // Only verified rationales are kept; the rest are tried again
+        drafts
+          .filter(draft => checks.get(draft.id)?.isConsistent)
+          .forEach(draft => accepted.set(draft.id, draft.reasoning!));
+        pending = pending.filter(pair => !accepted.has(pair.id));
+      }
+
+      return {
+        pairs: pairs.map(pair => {
+          const check = checks.get(pair.id);
+          if (!check) return pair;
+          // A rationale that never passed is dropped, but its last check stays visible for review
+          return { ...pair, reasoning: accepted.get(pair.id), reasoningCheck: check };
+        }),
+      };
+    },
+  },
+
+  negatives: {
+    id: 'negatives',
+    name: 'Incorrect Answers',
+    description: 'Generate plausible wrong answers linked to correct pairs for preference training',
+    inputs: ['pairs'],
+    outputs: ['pairs'],
+    repeatable: false,
+    estimateWork: state => Math.max(1, Math.ceil((state.pairs?.length ?? QA_PAIR_COUNT_TARGET) * INCORRECT_ANSWER_RATIO / INCORRECT_ANSWER_BATCH_SIZE)),
+    run: async (state, context) => {
+      const pairs = state.pairs || [];
+      const selected = geminiService.selectIncorrectAnswerPairs(pairs, context.options.incorrectAnswerRatio);
+      const incorrectPairs: QAPair[] = [];
+
+      for (let start = 0; start < selected.length; start += INCORRECT_ANSWER_BATCH_SIZE) {
+        context.setStatus(`Generating incorrect answers (${start + 1}-${Math.min(start + INCORRECT_ANSWER_BATCH_SIZE, selected.length)} of ${selected.length})...`);
+        const batch = selected.slice(start, start + INCORRECT_ANSWER_BATCH_SIZE);
+        incorrectPairs.push(...await context.runBatch(`negatives-${start}`, signal =>
+          geminiService.generateIncorrectAnswers(batch, context.goal, signal)
+        ));
+      }
+      return { pairs: [...pairs, ...incorrectPairs] };
+    },
+  },
+
+  safety: {
+    id: 'safety',
+    name: 'Safety Screening',
+    description: 'Flag harmful or policy-violating pairs with local rules and optional model moderation',
+    inputs: ['pairs'],
+    outputs: ['pairs', 'unsafePairs'],
+    repeatable: true,
+    estimateWork: state => Math.max(1, Math.ceil((state.pairs?.length ?? QA_PAIR_COUNT_TARGET) / SAFETY_BATCH_SIZE)),
+    run: async (state, context) => {
+      context.setStatus('Screening pairs for unsafe content...');
+      const { categories, action, useModeration } = context.options.safety;
+      const enabledCategories = categories.filter(category => category.enabled);
+      const pairs = state.pairs || [];
+      const flags = new Map<string, SafetyFlag[]>();
+      pairs.forEach(pair => {
+        const ruleFlags = SafetyService.screen(pair, enabledCategories);
+        if (ruleFlags.length > 0) flags.set(pair.id, ruleFlags);
+      });
+
+      if (useModeration && enabledCategories.length > 0) {
+        for (let start = 0; start < pairs.length; start += SAFETY_BATCH_SIZE) {
+          const batch = pairs.slice(start, start + SAFETY_BATCH_SIZE);
+          const results = await context.runBatch(`moderation-${start}`, signal =>
+            geminiService.moderatePairs(batch, enabledCategories, signal)
+          );
+          results.forEach(result => flags.set(result.pairId, SafetyService.mergeFlags(flags.get(result.pairId) || [], result.flags)));
+        }
+      }
+
+      const screened = pairs.map(pair => {
+        const pairFlags = flags.get(pair.id);
+        return pairFlags ? { ...pair, safetyFlags: SafetyService.mergeFlags(pair.safetyFlags || [], pairFlags) } : pair;
+      });
+      if (action === 'tag') {
+        return { pairs: screened, unsafePairs: state.unsafePairs || [] };
+      }
+
+      // Incorrect answers are only useful next to their correct pair, so they go with it
+      const droppedIds = new Set(screened.filter(pair => pair.safetyFlags?.length).map(pair => pair.id));
+      const isDropped = (pair: QAPair) => droppedIds.has(pair.id) || (!!pair.correctPairId && droppedIds.has(pair.correctPairId));
+      return {
+        pairs: screened.filter(pair => !isDropped(pair)),
+        unsafePairs: [...(state.unsafePairs || []), ...screened.filter(isDropped)],
+      };
+    },
+  },
+
+  context: {
+    id: 'context',
+    name: 'RAG Context',
+    description: 'Pack each question with the chunk it was drawn from and distractor chunks from other sources',
+    inputs: ['chunks', 'pairs'],
+    outputs: ['pairs'],
+    repeatable: false,
+    estimateWork: () => 1,
+    run: async (state, context) => {
+      const pairs = state.pairs || [];
+      if (!context.options.rag.enabled) return { pairs };
+
+      context.setStatus('Packing retrieved context...');
+      // Incorrect answers stay without context; preference exports compare answers only
+      return {
+        pairs: pairs.map(pair => {
+          if (!pair.isCorrect) return pair;
+          const passages = RagService.packContext(pair, state.chunks, context.options.rag);
+          return passages ? { ...pair, context: passages } : pair;
+        }),
+      };
+    },
+  },
+
+  compile: {
+    id: 'compile',
+    name: 'Compile Dataset',
+    description: 'Assemble the final dataset from the pipeline artifacts',
+    inputs: ['pairs'],
+    outputs: ['processedData'],
+    repeatable: false,
+    locked: true,
+    estimateWork: () => 1,
+    run: async (state, context) => {
+      context.setStatus('Compiling final dataset...');
+      const pairs = state.pairs || [];
+      const groundedPairCount = pairs.filter(pair => pair.groundingUris?.length).length;
+      return {
+        processedData: {
+          qaPairs: pairs,
+          combinedCleanedText: '',
+          sourceFileCount: state.sources.filter(source => source.type === 'file').length,
+          sourceUrlCount: state.sources.filter(source => source.type === 'url').length,
+          identifiedThemes: state.themes || [],
+          correctAnswerCount: pairs.filter(pair => pair.isCorrect).length,
+          incorrectAnswerCount: pairs.filter(pair => !pair.isCorrect).length,
+          syntheticPairCount: pairs.filter(pair => pair.source === 'synthetic').length,
+          unanswerablePairCount: pairs.filter(pair => pair.source === 'unanswerable').length,
+          reasoningPairCount: pairs.filter(pair => pair.reasoning).length,
+          validatedPairCount: pairs.filter(pair => pair.validationStatus === 'validated').length,
+          failedValidationCount: pairs.filter(pair => pair.validationStatus === 'failed').length,
+          reviewPairCount: pairs.filter(pair => pair.needsReview).length,
+          repairedPairCount: pairs.filter(pair => pair.edits?.some(edit => edit.stage === 'repair')).length,
+          flaggedPairCount: pairs.filter(pair => pair.safetyFlags?.length).length,
+          droppedUnsafePairCount: state.unsafePairs?.length,
+          unsafePairs: state.unsafePairs,
+          identifiedGaps: state.identifiedGaps,
+          gapFillingEnabled: state.identifiedGaps !== undefined,
+          isAugmented: groundedPairCount > 0,
+          groundingMetadata: state.groundingMetadata,
+          duplicateClusters: state.duplicateClusters,
+          promptTemplateVersions: promptService.listVersions(),
+          ...(context.options.mode === 'tools' && { tools: ToolService.usableTools(context.options.tools) }),
+        },
+      };
+    },
+  },
+};
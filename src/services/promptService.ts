@@ -0,0 +1,492 @@
+import type { PromptTemplate, PromptTemplateId, PromptTemplateVersion, PromptVariable } from '../types';
+
+const STORAGE_KEY = 'fine-format:prompt-templates';
+
+export type PromptValues = Record<string, string | number | string[]>;
+
+const GOAL: PromptVariable = {
+  name: 'goal',
+  type: 'text',
+  description: 'Goal name, description, focus and answer style',
+  sample: 'Fine-tuning goal: Knowledge Base - Create comprehensive Q&A pairs for business knowledge bases\nFocus on: factual knowledge and information retrieval\nAnswer style: Concise, precise answers',
+};
+const GOAL_FOCUS: PromptVariable = { name: 'goalFocus', type: 'text', description: 'What the goal focuses on', sample: 'factual knowledge and information retrieval' };
+const GOAL_NAME: PromptVariable = { name: 'goalName', type: 'text', description: 'Name of the goal', sample: 'Knowledge Base' };
+const CONTENT: PromptVariable = { name: 'content', type: 'text', description: 'Source text', sample: 'Photosynthesis converts light energy into chemical energy stored in glucose...' };
+const SOURCE: PromptVariable = { name: 'source', type: 'text', description: 'Source name and chunk position', sample: 'biology.md, part 3' };
+const THEMES: PromptVariable = { name: 'themes', type: 'list', description: 'Identified themes', sample: ['Photosynthesis', 'Cell respiration'] };
+const COUNT: PromptVariable = { name: 'count', type: 'number', description: 'Number of items to generate', sample: 5 };
+const QUESTION_MIX: PromptVariable = { name: 'questionMix', type: 'text', description: 'Question type mix of the goal', sample: '50% factual, 33% procedural, 17% definition' };
+const RESEARCH: PromptVariable = {
+  name: 'research',
+  type: 'text',
+  description: 'Web research section, empty when research is off',
+  sample: '\n\nSupplementary web research (use it to enrich answers where it agrees with the content):\n[1] Photosynthesis - Wikipedia (https://en.wikipedia.org/wiki/Photosynthesis)\nPhotosynthesis is a process used by plants...',
+};
+const EXAMPLES: PromptVariable = {
+  name: 'examples',
+  type: 'text',
+  description: 'Pairs already generated from this source, empty for the first batch',
+  sample: '\n\nPairs already in the dataset (match their quality, do not repeat them):\nQ: What does photosynthesis produce?\nA: Glucose and oxygen.',
+};
+const LANGUAGE: PromptVariable = { name: 'language', type: 'text', description: 'Language to write in', sample: 'Spanish (es)' };
+const PAIRS: PromptVariable = { name: 'pairs', type: 'text', description: 'Numbered question-answer pairs', sample: '1. Q: What does photosynthesis produce?\nA: Glucose and oxygen.' };
+const IDENTIFIED_PAIRS: PromptVariable = { ...PAIRS, description: 'Question-answer pairs, each headed by its [id]', sample: '[3f2a9c]\nQ: What does photosynthesis produce?\nA: Glucose and oxygen.' };
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplate> = {
+  themes: {
+    id: 'themes',
+    name: 'Theme Identification',
+    description: 'Finds the key themes across all sources',
+    version: 1,
+    variables: [GOAL_FOCUS, CONTENT],
+    body: `Analyze the following content and identify key themes relevant to {{goalFocus}}:
+
+{{content}}
+
+Return a JSON array of theme names (strings only).`,
+  },
+
+  qaGeneration: {
+    id: 'qaGeneration',
+    name: 'Q&A Generation',
+    description: 'Generates single-turn pairs from one content chunk',
+    version: 3,
+    variables: [GOAL, SOURCE, CONTENT, RESEARCH, THEMES, COUNT, QUESTION_MIX, EXAMPLES, LANGUAGE],
+    body: `Generate high-quality question-answer pairs from this content.
+
+{{goal}}
+
+Content ({{source}}):
+{{content}}{{research}}
+
+Themes to focus on:
+{{themes}}{{examples}}
+
+Generate {{count}} diverse Q&A pairs with this question type mix: {{questionMix}}. Write every question and answer in {{language}}, but quote evidence exactly as it appears in the content. Return JSON array with: user (question), model (answer), isCorrect (always true), evidence (a short verbatim quote from the content that supports the answer), sources (array of the research numbers the pair relies on, empty if none).`,
+  },
+
+  conversationGeneration: {
+    id: 'conversationGeneration',
+    name: 'Conversation Generation',
+    description: 'Generates multi-turn conversations from one content chunk',
+    version: 3,
+    variables: [
+      GOAL, SOURCE, CONTENT, RESEARCH, THEMES, COUNT, QUESTION_MIX, LANGUAGE,
+      { name: 'minTurns', type: 'number', description: 'Fewest user turns per conversation', sample: 2 },
+      { name: 'maxTurns', type: 'number', description: 'Most user turns per conversation', sample: 4 },
+    ],
+    body: `Generate realistic multi-turn conversations between a user and an assistant from this content.
+
+{{goal}}
+
+Content ({{source}}):
+{{content}}{{research}}
+
+Themes to focus on:
+{{themes}}
+
+Generate {{count}} conversations of {{minTurns}} to {{maxTurns}} user turns each, with user questions following this question type mix: {{questionMix}}. After the opening question, every user turn should be a follow-up that builds on the previous answer, a clarification of something the assistant said, or a shift to a related topic. Every assistant answer must be supported by the content and consistent with the earlier answers. Write every turn in {{language}}, but quote evidence exactly as it appears in the content.
+
+Return JSON array with: turns (array of { role: "user" or "assistant", content, intent }), where conversations alternate starting with the user and end with an assistant answer, and intent is set on user turns to "opening", "follow-up", "clarification" or "topic-shift"; evidence (a short verbatim quote from the content that supports the final answer); sources (array of the research numbers the conversation relies on, empty if none).`,
+  },
+
+  toolConversation: {
+    id: 'toolConversation',
+    name: 'Tool Conversations',
+    description: 'Generates exchanges where the assistant calls tools before answering',
+    version: 1,
+    variables: [
+      GOAL, SOURCE, CONTENT, RESEARCH, THEMES, COUNT, LANGUAGE,
+      { name: 'tools', type: 'text', description: 'Available tools as JSON: name, description and parameter schema', sample: '[{"name":"search_documents","description":"Search the knowledge base","parameters":{"type":"object","properties":{"query":{"type":"string"}},"required":["query"]}}]' },
+      { name: 'maxSteps', type: 'number', description: 'Most rounds of tool calls before the answer', sample: 4 },
+    ],
+    body: `Generate realistic exchanges in which a user asks an assistant that can call tools, and the assistant uses the tools to answer.
+
+{{goal}}
+
+Content ({{source}}):
+{{content}}{{research}}
+
+Themes to focus on:
+{{themes}}
+
+Available tools:
+{{tools}}
+
+Generate {{count}} exchanges. In most of them the assistant makes one to {{maxSteps}} rounds of tool calls before answering; calls that need an earlier result go in a later round. Every call must match its tool's parameter schema exactly: only defined parameters, every required parameter, the right types and allowed values. Write each tool result as the tool would return it, usually JSON, filled with facts from the content so the exchange stays grounded in it. In the remaining exchanges the request needs no tool and the assistant answers directly. The final answer must rely on the tool results and agree with the content. Write the user request and final answer in {{language}}, but quote evidence exactly as it appears in the content.
+
+Return JSON array with: user (request), steps (array of rounds, each { calls: array of { name, arguments (object) }, results: array with one result string per call, in the same order }, empty if no tool is needed), model (final answer), evidence (a short verbatim quote from the content that supports the final answer), sources (array of the research numbers the exchange relies on, empty if none).`,
+  },
+
+  researchQueries: {
+    id: 'researchQueries',
+    name: 'Research Queries',
+    description: 'Plans web search queries for each theme',
+    version: 1,
+    variables: [GOAL_FOCUS, THEMES, { ...COUNT, description: 'Queries per theme', sample: 2 }],
+    body: `Write {{count}} web search queries per theme that would find authoritative background information on {{goalFocus}}.
+
+Themes:
+{{themes}}
+
+Return JSON array with: theme (exactly as listed), queries (array of strings).`,
+  },
+
+  webSearch: {
+    id: 'webSearch',
+    name: 'Web Search',
+    description: 'Asks the search tool about one query',
+    version: 1,
+    variables: [{ name: 'query', type: 'text', description: 'Search query', sample: 'light-dependent reactions explained' }],
+    body: 'Search the web and summarize the most relevant, factual information about: {{query}}',
+  },
+
+  knowledgeGaps: {
+    id: 'knowledgeGaps',
+    name: 'Knowledge Gaps',
+    description: 'Finds what the source covers but the pairs do not',
+    version: 1,
+    variables: [
+      GOAL_FOCUS, CONTENT, THEMES,
+      { name: 'questions', type: 'text', description: 'Numbered existing questions', sample: '1. What does photosynthesis produce?' },
+    ],
+    body: `Compare the existing Q&A pairs against the source content and identify knowledge gaps for a dataset focused on {{goalFocus}}.
+A knowledge gap is a fact, concept, procedure or relationship that the source content covers but the existing Q&A pairs do not.
+
+Source content:
+{{content}}
+
+Themes:
+{{themes}}
+
+Existing questions:
+{{questions}}
+
+Return a JSON array of objects with: description, theme (one of the themes above), priority ("high", "medium" or "low"), suggestedQuestionTypes (array of strings), relatedConcepts (array of strings).`,
+  },
+
+  syntheticGeneration: {
+    id: 'syntheticGeneration',
+    name: 'Gap Filling',
+    description: 'Generates pairs that fill one knowledge gap',
+    version: 3,
+    variables: [
+      GOAL, COUNT, CONTENT, LANGUAGE,
+      { name: 'gap', type: 'text', description: 'Gap description', sample: 'How light intensity affects the rate of photosynthesis' },
+      { name: 'gapTheme', type: 'text', description: 'Theme of the gap', sample: 'Photosynthesis' },
+      { name: 'questionTypes', type: 'text', description: 'Suggested question types', sample: 'reasoning, comparison' },
+      { name: 'concepts', type: 'text', description: 'Related concepts', sample: 'light intensity, limiting factors' },
+    ],
+    body: `Generate {{count}} question-answer pairs that fill this knowledge gap.
+
+{{goal}}
+
+Gap: {{gap}}
+Theme: {{gapTheme}}
+Suggested question types: {{questionTypes}}
+Related concepts: {{concepts}}
+
+Answers must be supported by the source content below:
+{{content}}
+
+Write every question and answer in {{language}}, but quote evidence exactly as it appears in the content.
+
+Return JSON array with: user (question), model (answer), evidence (a short verbatim quote from the content that supports the answer), reasoning (why this pair fills the gap).`,
+  },
+
+  classification: {
+    id: 'classification',
+    name: 'Classification',
+    description: 'Tags pairs with difficulty, theme and question type',
+    version: 1,
+    variables: [
+      GOAL_NAME, THEMES, PAIRS,
+      { name: 'difficulties', type: 'text', description: 'Allowed difficulty levels', sample: '"easy", "medium", "hard"' },
+      { name: 'questionTypes', type: 'text', description: 'Allowed question types', sample: '"factual", "reasoning", "procedural", "comparison", "definition"' },
+    ],
+    body: `Classify each question-answer pair below for a "{{goalName}}" fine-tuning dataset.
+
+Themes:
+{{themes}}
+
+Pairs:
+{{pairs}}
+
+For every pair give:
+- difficulty: {{difficulties}}
+- theme: the number of the theme it covers best
+- questionType: {{questionTypes}}
+
+Return JSON array with: index (the pair number), difficulty, theme, questionType.`,
+  },
+
+  incorrectAnswers: {
+    id: 'incorrectAnswers',
+    name: 'Incorrect Answers',
+    description: 'Writes plausible wrong answers for preference training',
+    version: 2,
+    variables: [GOAL_NAME, PAIRS],
+    body: `For each question below, write a plausible but incorrect answer for "{{goalName}}" preference training.
+The incorrect answer should look convincing and match the style and language of the correct answer, but contain a factual error, a wrong conclusion or a missing key step.
+
+{{pairs}}
+
+Return JSON array with: index (the question number), incorrectAnswer.`,
+  },
+
+  validation: {
+    id: 'validation',
+    name: 'Validation',
+    description: 'Judges pairs for quality, accuracy and fit with the goal',
+    version: 3,
+    variables: [GOAL, IDENTIFIED_PAIRS],
+    body: `Validate these Q&A pairs for quality and accuracy.
+
+{{goal}}
+
+A pair is only valid if it serves the goal's focus and its answer follows the answer style.
+Some pairs show an earlier conversation or the tool calls made before the answer; judge the final answer in that context.
+
+{{pairs}}
+
+Return one result for every pair, as a JSON array with: pairId (the id in brackets, copied exactly), isValid (boolean), accuracy (0-1), completeness (0-1), clarity (0-1), relevance (0-1), issues (array), suggestions (array), suggestedCorrection (a corrected answer when the answer is wrong or incomplete, otherwise omit).`,
+  },
+
+  faithfulness: {
+    id: 'faithfulness',
+    name: 'Faithfulness',
+    description: 'Checks each answer against the source passage it was generated from',
+    version: 2,
+    variables: [{
+      name: 'items',
+      type: 'text',
+      description: 'Numbered pairs, each with its source passage',
+      sample: '1. Passage: Photosynthesis converts light energy into chemical energy stored in glucose.\nQ: What does photosynthesis produce?\nA: Glucose and oxygen.',
+    }],
+    body: `Check whether each answer below is faithful to its source passage. An answer is faithful when every claim it makes is stated in or directly implied by the passage. General knowledge that the passage does not contain counts as unsupported. Where a pair shows an earlier conversation or tool call results, claims taken from them are supported too.
+
+{{items}}
+
+Return JSON array with: index (the pair number), factualAccuracy (0-1, the share of the answer that the passage supports), relevance (0-1, how well the answer addresses the question), unsupportedClaims (array of claims the passage does not support, empty if none), reasoning (one or two sentences).`,
+  },
+
+  moderation: {
+    id: 'moderation',
+    name: 'Safety Moderation',
+    description: 'Screens pairs for harmful or policy-violating content',
+    version: 1,
+    variables: [
+      { name: 'categories', type: 'list', description: 'Categories to screen for, as "id: description"', sample: ['violence: Threats, glorified violence or instructions for weapons', 'self-harm: Encouragement of suicide or self-injury'] },
+      { ...PAIRS, sample: '1. user: How do I reset my password?\nassistant: Open Settings and choose Reset password.' },
+    ],
+    body: `Screen each conversation below for content that must not be used to train an assistant.
+
+Categories:
+{{categories}}
+
+Conversations:
+{{pairs}}
+
+Only flag content that clearly falls into a category. Discussing a sensitive topic factually or refusing a harmful request is not a violation.
+
+Return JSON array with one entry per flagged conversation: index (the conversation number), categories (array of category ids), reason (one sentence). Return [] when nothing is flagged.`,
+  },
+
+  translation: {
+    id: 'translation',
+    name: 'Translation',
+    description: 'Translates pairs for translation augmentation',
+    version: 1,
+    variables: [
+      LANGUAGE,
+      { name: 'items', type: 'text', description: 'Numbered conversations as JSON message arrays', sample: '1. [{"role":"user","content":"What does photosynthesis produce?"},{"role":"assistant","content":"Glucose and oxygen."}]' },
+    ],
+    body: `Translate each conversation below into {{language}}.
+Keep the meaning, tone, formatting and level of detail. Keep names, code, numbers and units as they are, and keep technical terms in their usual form in {{language}}.
+
+{{items}}
+
+Return JSON array with: index (the conversation number), messages (array of { role, content } with the same roles in the same order).`,
+  },
+
+  questionVariants: {
+    id: 'questionVariants',
+    name: 'Question Variants',
+    description: 'Rewords questions so the model sees how real users phrase them',
+    version: 1,
+    variables: [
+      { name: 'variantRequests', type: 'list', description: 'Variants to write per question', sample: ['2 of type "paraphrase": a natural rewording with different vocabulary and sentence structure', '1 of type "typos": the same question with realistic typos, misspellings and missing punctuation'] },
+      { name: 'questions', type: 'text', description: 'Numbered questions, with earlier conversation where there is one', sample: '1. Q: What does photosynthesis produce?' },
+    ],
+    body: `Write alternative versions of each question below, the way different real users might ask it.
+Every variant must ask for exactly the same information, so the existing answer still fits it word for word. Keep each variant in the language of its question and do not repeat the original wording.
+
+For each question write:
+{{variantRequests}}
+
+Questions:
+{{questions}}
+
+Return JSON array with: index (the question number), variants (array of { type, question }).`,
+  },
+
+  unanswerable: {
+    id: 'unanswerable',
+    name: 'Unanswerable Questions',
+    description: 'Writes questions the sources cannot answer, with calibrated refusals',
+    version: 1,
+    variables: [
+      GOAL, CONTENT, THEMES, COUNT, LANGUAGE,
+      { name: 'kinds', type: 'list', description: 'Kinds of unanswerable question, as "kind: description"', sample: ['out-of-scope: a question that falls outside what the documents are about', 'not-covered: a question asking for a detail the documents do not contain'] },
+      { name: 'avoid', type: 'text', description: 'Questions already written, to avoid repeats', sample: '' },
+    ],
+    body: `Write questions that users of this assistant might plausibly ask but that cannot be answered from the documents, each with the answer the assistant should give.
+
+{{goal}}
+
+Excerpts from the documents:
+{{content}}
+
+Themes the documents cover:
+{{themes}}
+
+Mix these kinds of question:
+{{kinds}}{{avoid}}
+
+Each answer must follow the answer style above and be calibrated: say plainly that the documents do not cover the question, correct a false premise when there is one, and point to what the documents do cover when it is related. Never guess or add facts the documents do not contain.
+
+Generate {{count}} pairs, written in {{language}}. Return JSON array with: user (question), model (answer), kind (one of the kinds above).`,
+  },
+
+  reasoning: {
+    id: 'reasoning',
+    name: 'Reasoning Traces',
+    description: 'Writes the step-by-step rationale that leads to each final answer',
+    version: 1,
+    variables: [
+      GOAL,
+      { name: 'items', type: 'text', description: 'Numbered pairs, each with its source passage where there is one', sample: '1. Passage: Photosynthesis converts light energy into chemical energy stored in glucose.\nQ: What does photosynthesis produce?\nA: Glucose and oxygen.' },
+    ],
+    body: `For each question below, write the step-by-step reasoning that leads from the question to the given final answer.
+
+{{goal}}
+
+{{items}}
+
+Work from the passage where there is one: identify what is asked, pick out the relevant facts, and combine them into the answer. Each step should follow from the previous ones, and the last step must arrive at exactly the final answer, not a different or broader one. For a question the documents do not cover, reason about why no answer can be given. Do not restate the final answer in full at the end. Write each rationale in the language of its question.
+
+Return JSON array with: index (the pair number), reasoning (the steps as one string, one step per line).`,
+  },
+
+  reasoningCheck: {
+    id: 'reasoningCheck',
+    name: 'Reasoning Consistency',
+    description: 'Checks that each rationale supports its final answer',
+    version: 1,
+    variables: [
+      { name: 'items', type: 'text', description: 'Numbered pairs, each with its rationale', sample: '1. Q: What does photosynthesis produce?\nReasoning: Photosynthesis turns light into chemical energy.\nIt stores that energy in glucose and releases oxygen.\nA: Glucose and oxygen.' },
+    ],
+    body: `Check whether each rationale below is consistent with its final answer.
+A rationale is consistent when its steps follow from each other, it reaches the same conclusion as the final answer, and it states nothing the final answer contradicts.
+
+{{items}}
+
+Return JSON array with: index (the pair number), isConsistent (boolean), issues (array of short descriptions of contradictions or gaps, empty if consistent).`,
+  },
+};
+
+interface StoredTemplates {
+  overrides: Partial<Record<PromptTemplateId, { body: string; version: number }>>;
+  lastVersions: Partial<Record<PromptTemplateId, number>>; // Survives resets so versions are never reused
+}
+
+class PromptService {
+  get(id: PromptTemplateId): PromptTemplate {
+    const override = this.load().overrides[id];
+    const template = DEFAULT_PROMPT_TEMPLATES[id];
+    return override ? { ...template, body: override.body, version: override.version, isCustom: true } : template;
+  }
+
+  list(): PromptTemplate[] {
+    return (Object.keys(DEFAULT_PROMPT_TEMPLATES) as PromptTemplateId[]).map(id => this.get(id));
+  }
+
+  /** Stores an edited body as the next version of the template. */
+  save(id: PromptTemplateId, body: string): PromptTemplate {
+    const stored = this.load();
+    const version = Math.max(this.get(id).version, stored.lastVersions[id] ?? 0) + 1;
+    stored.overrides[id] = { body, version };
+    stored.lastVersions[id] = version;
+    this.store(stored);
+    return this.get(id);
+  }
+
+  reset(id: PromptTemplateId): PromptTemplate {
+    const stored = this.load();
+    delete stored.overrides[id];
+    this.store(stored);
+    return this.get(id);
+  }
+
+  /** The template versions in use, recorded with each dataset. */
+  listVersions(): PromptTemplateVersion[] {
+    return this.list().map(template => ({
+      id: template.id,
+      name: template.name,
+      version: template.version,
+      isCustom: template.isCustom ?? false,
+    }));
+  }
+
+  /** Renders a template with `values`; placeholders without a value are left in place. */
+  render(id: PromptTemplateId, values: PromptValues): string {
+    return this.renderBody(this.get(id), values);
+  }
+
+  /** Renders a body with each variable's sample value, for previews while editing. */
+  renderPreview(template: PromptTemplate, body = template.body): string {
+    const samples = Object.fromEntries(template.variables.map(variable => [variable.name, variable.sample]));
+    return this.renderBody({ ...template, body }, samples);
+  }
+
+  /** Placeholders in `body` that the template does not define. */
+  findUnknownVariables(template: PromptTemplate, body: string): string[] {
+    const known = new Set(template.variables.map(variable => variable.name));
+    const used = [...body.matchAll(/\{\{(\w+)\}\}/g)].map(match => match[1]);
+    return [...new Set(used.filter(name => !known.has(name)))];
+  }
+
+  private renderBody(template: PromptTemplate, values: PromptValues): string {
+    const types = new Map(template.variables.map(variable => [variable.name, variable.type]));
+    return template.body.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => {
+      const value = values[name];
+      if (value === undefined) return placeholder;
+      if (Array.isArray(value)) {
+        return types.get(name) === 'list' ? value.map((item, i) => `${i + 1}. ${item}`).join('\n') : value.join(', ');
+      }
+      return String(value);
+    });
+  }
+
+  private load(): StoredTemplates {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : null;
+      return { overrides: parsed?.overrides ?? {}, lastVersions: parsed?.lastVersions ?? {} };
+    } catch (error) {
+      console.warn('[PROMPTS] Failed to load prompt templates:', error);
+      return { overrides: {}, lastVersions: {} };
+    }
+  }
+
+  private store(templates: StoredTemplates): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+    } catch (error) {
+      console.warn('[PROMPTS] Failed to save prompt templates:', error);
+    }
+  }
+}
+
+export const promptService = new PromptService();
@@ -0,0 +1,117 @@
+import type {
+  QAPair,
+  ContentChunk,
+  ContextPassage,
+  ContextPlacement,
+  RagConfig,
+  StandardFormatMessage,
+  InstructionFormatRecord,
+} from '../types';
+import { RAG_INSTRUCTION } from '../constants';
+import { ConversationService } from './conversationService';
+
+export class RagService {
+  /**
+   * Packs the chunk a pair was drawn from with distractor chunks, preferring
+   * other sources. Unanswerable pairs get distractors only, which teaches the
+   * refusal; other pairs without an attributed chunk get no context.
+   * The choice is seeded by the pair id, so reruns pack the same passages.
+   */
+  public static packContext(pair: QAPair, chunks: ContentChunk[], config: RagConfig): ContextPassage[] | undefined {
+    const gold = pair.attribution && chunks.find(chunk =>
+      chunk.sourceId === pair.attribution!.sourceId && chunk.index === pair.attribution!.chunkIndex
+    );
+    if (!gold && pair.source !== 'unanswerable') return undefined;
+
+    const random = this.seededRandom(pair.id);
+    // Neighbours of the gold chunk overlap it and may contain the answer too
+    const sameSource = chunks.filter(chunk =>
+      gold && chunk.sourceId === gold.sourceId && Math.abs(chunk.index - gold.index) > 1
+    );
+    const otherSources = chunks.filter(chunk => !gold || chunk.sourceId !== gold.sourceId);
+    const distractors = [...this.shuffle(otherSources, random), ...this.shuffle(sameSource, random)]
+      .slice(0, config.distractorCount)
+      .map(chunk => this.toPassage(chunk, false));
+    if (!gold) return distractors.length > 0 ? distractors : undefined;
+
+    const goldPassage = this.toPassage(gold, true);
+    switch (config.order) {
+      case 'gold-first':
+        return [goldPassage, ...distractors];
+      case 'gold-last':
+        return [...distractors, goldPassage];
+      default: {
+        const position = Math.floor(random() * (distractors.length + 1));
+        return [...distractors.slice(0, position), goldPassage, ...distractors.slice(position)];
+      }
+    }
+  }
+
+  /** Numbered passages with their source, as they appear in a prompt. */
+  public static formatContext(passages: ContextPassage[]): string {
+    return passages
+      .map((passage, i) => `[${i + 1}] ${passage.sourceLabel}\n${passage.text.trim()}`)
+      .join('\n\n');
+  }
+
+  /** Chat messages with the context in a system message or ahead of the first question. */
+  public static toMessages(pair: QAPair, placement: ContextPlacement): StandardFormatMessage[] {
+    const messages = ConversationService.toMessages(pair);
+    const context = this.formatContext(pair.context || []);
+    if (placement === 'system') {
+      return [{ role: 'system', content: `${RAG_INSTRUCTION}\n\nContext:\n${context}` }, ...messages];
+    }
+    const [first, ...rest] = messages;
+    return [
+      { role: 'user', content: `${RAG_INSTRUCTION}\n\nContext:\n${context}\n\nQuestion: ${first.content}` },
+      ...rest,
+    ];
+  }
+
+  /** Alpaca-style record; the context goes in `system` or in `input`. */
+  public static toInstruction(pair: QAPair, placement: ContextPlacement): InstructionFormatRecord {
+    const context = this.formatContext(pair.context || []);
+    const history = ConversationService.isConversation(pair)
+      ? this.exchanges(pair.turns.slice(0, -2))
+      : undefined;
+    const record: InstructionFormatRecord = placement === 'system'
+      ? { system: `${RAG_INSTRUCTION}\n\nContext:\n${context}`, instruction: pair.user, input: '', output: pair.model }
+      : { instruction: `${RAG_INSTRUCTION}\n\nQuestion: ${pair.user}`, input: context, output: pair.model };
+    return history && history.length > 0 ? { ...record, history } : record;
+  }
+
+  private static exchanges(messages: StandardFormatMessage[]): Array<[string, string]> {
+    const exchanges: Array<[string, string]> = [];
+    for (let i = 0; i + 1 < messages.length; i += 2) {
+      exchanges.push([messages[i].content, messages[i + 1].content]);
+    }
+    return exchanges;
+  }
+
+  private static toPassage(chunk: ContentChunk, isGold: boolean): ContextPassage {
+    return { sourceId: chunk.sourceId, sourceLabel: chunk.sourceLabel, chunkIndex: chunk.index, text: chunk.text, isGold };
+  }
+
+  private static shuffle<T>(items: T[], random: () => number): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  /** Mulberry32 seeded from an FNV-1a hash of the seed string. */
+  private static seededRandom(seed: string): () => number {
+    let state = 2166136261;
+    for (let i = 0; i < seed.length; i++) {
+      state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+    }
+    return () => {
+      state = (state + 0x6d2b79f5) | 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
@@ -0,0 +1,198 @@
+import type {
+  SourceContent,
+  PiiCategory,
+  PiiDetector,
+  RedactionConfig,
+  RedactionEntry,
+  RedactionMode,
+  RedactionReport,
+} from '../types';
+import { PSEUDONYM_NAMES } from '../constants';
+
+interface DetectorMatch {
+  detector: PiiDetector;
+  start: number;
+  end: number;
+  order: number; // Position of the detector in the config, used to break ties
+}
+
+export class RedactionService {
+  /**
+   * Replaces every detected value in the sources before they are chunked or
+   * sent anywhere. The same value gets the same replacement in every source,
+   * so the dataset stays coherent after redaction.
+   */
+  public static redactSources(
+    sources: SourceContent[],
+    config: RedactionConfig
+  ): { sources: SourceContent[]; report: RedactionReport } {
+    const { matchers, invalidDetectors } = this.compileDetectors(config.detectors);
+    const entries = new Map<string, RedactionEntry>();
+    const counters = new Map<PiiCategory, number>();
+
+    const redact = (text: string, sourceId: string): string => {
+      const matches = this.resolveOverlaps(this.findMatches(text, matchers));
+      let redactedText = '';
+      let cursor = 0;
+
+      matches.forEach(match => {
+        const original = text.slice(match.start, match.end);
+        const key = `${match.detector.category}:${original.toLowerCase()}`;
+        let entry = entries.get(key);
+        if (!entry) {
+          const index = (counters.get(match.detector.category) || 0) + 1;
+          counters.set(match.detector.category, index);
+          entry = {
+            category: match.detector.category,
+            detectorId: match.detector.id,
+            original,
+            replacement: this.replacement(match.detector.category, index, config.mode),
+            count: 0,
+            sourceIds: [],
+          };
+          entries.set(key, entry);
+        }
+        entry.count++;
+        if (!entry.sourceIds.includes(sourceId)) entry.sourceIds.push(sourceId);
+
+        redactedText += text.slice(cursor, match.start) + entry.replacement;
+        cursor = match.end;
+      });
+
+      return redactedText + text.slice(cursor);
+    };
+
+    // File names and URLs label every chunk in prompts, so they are redacted too
+    const redacted = sources.map(source => ({
+      ...source,
+      ...(source.name !== undefined && { name: redact(source.name, source.id) }),
+      ...(source.url !== undefined && { url: redact(source.url, source.id) }),
+      content: redact(source.content, source.id),
+    }));
+
+    const reportEntries = [...entries.values()].sort((a, b) => b.count - a.count);
+    return {
+      sources: redacted,
+      report: {
+        mode: config.mode,
+        totalMatches: reportEntries.reduce((sum, entry) => sum + entry.count, 0),
+        entries: reportEntries,
+        invalidDetectors,
+      },
+    };
+  }
+
+  /** Returns an error message when a detector's pattern cannot be used, otherwise null. */
+  public static checkDetector(detector: PiiDetector): string | null {
+    if (detector.kind === 'dictionary') return this.terms(detector).length === 0 ? 'List at least one name or term' : null;
+    if (detector.pattern.trim() === '') return 'Pattern is empty';
+    try {
+      new RegExp(detector.pattern, 'g');
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid pattern';
+    }
+    // A pattern that matches the empty string would never advance
+    return new RegExp(detector.pattern).test('') ? 'Pattern matches empty text' : null;
+  }
+
+  private static compileDetectors(detectors: PiiDetector[]): {
+    matchers: Array<{ detector: PiiDetector; regex: RegExp; order: number }>;
+    invalidDetectors: string[];
+  } {
+    const matchers: Array<{ detector: PiiDetector; regex: RegExp; order: number }> = [];
+    const invalidDetectors: string[] = [];
+
+    detectors.forEach((detector, order) => {
+      if (!detector.enabled) return;
+
+      if (this.checkDetector(detector)) {
+        invalidDetectors.push(detector.name);
+        return;
+      }
+
+      if (detector.kind === 'dictionary') {
+        const terms = this.terms(detector).sort((a, b) => b.length - a.length);
+        // Unicode-aware word boundaries so terms in any script match whole words only
+        const alternatives = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'));
+        matchers.push({
+          detector,
+          regex: new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu'),
+          order,
+        });
+        return;
+      }
+
+      matchers.push({ detector, regex: new RegExp(detector.pattern, 'g'), order });
+    });
+
+    return { matchers, invalidDetectors };
+  }
+
+  private static terms(detector: PiiDetector): string[] {
+    return detector.pattern
+      .split('\n')
+      .map(term => term.trim())
+      .filter(term => term.length > 0);
+  }
+
+  private static findMatches(
+    text: string,
+    matchers: Array<{ detector: PiiDetector; regex: RegExp; order: number }>
+  ): DetectorMatch[] {
+    return matchers.flatMap(({ detector, regex, order }) =>
+      Array.from(text.matchAll(regex))
+        .filter(match => match[0].length > 0)
+        .filter(match => detector.checksum !== 'luhn' || this.passesLuhn(match[0]))
+        .map(match => ({ detector, start: match.index!, end: match.index! + match[0].length, order }))
+    );
+  }
+
+  /** Keeps the earliest match at each position, preferring longer matches and then earlier detectors. */
+  private static resolveOverlaps(matches: DetectorMatch[]): DetectorMatch[] {
+    const sorted = [...matches].sort((a, b) =>
+      a.start - b.start || (b.end - b.start) - (a.end - a.start) || a.order - b.order
+    );
+    const kept: DetectorMatch[] = [];
+    sorted.forEach(match => {
+      const last = kept[kept.length - 1];
+      if (!last || match.start >= last.end) kept.push(match);
+    });
+    return kept;
+  }
+
+  private static passesLuhn(value: string): boolean {
+    const digits = value.replace(/\D/g, '');
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      let digit = Number(digits[digits.length - 1 - i]);
+      if (i % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+    }
+    return sum % 10 === 0;
+  }
+
+  private static replacement(category: PiiCategory, index: number, mode: RedactionMode): string {
+    if (mode === 'placeholder') return `[${category.toUpperCase()}_${index}]`;
+
+    switch (category) {
+      case 'email':
+        return `person${index}@example.com`;
+      case 'phone':
+        return `555-${String(100 + index).padStart(4, '0')}`;
+      case 'name':
+        return index <= PSEUDONYM_NAMES.length ? PSEUDONYM_NAMES[index - 1] : `Person ${index}`;
+      case 'account':
+        return `ACCT-${String(index).padStart(6, '0')}`;
+      case 'address':
+        return `${index} Example Street`;
+      case 'ip':
+        return `10.0.${Math.floor(index / 256)}.${index % 256}`;
+      // Fake keys would look like real secrets, so these keep a placeholder
+      default:
+        return `[${category.toUpperCase()}_${index}]`;
+    }
+  }
+}
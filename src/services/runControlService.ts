@@ -0,0 +1,94 @@
+export class RunCancelledError extends Error {
+  constructor() {
+    super('Dataset generation was cancelled');
+    this.name = 'RunCancelledError';
+  }
+}
+
+const failedResults = new WeakSet<object>();
+
+/**
+ * Marks the fallback a model call returns when its request failed, so the run
+ * can carry on with it while the checkpoint leaves the batch to be retried.
+ */
+export function markFailed<T extends object>(fallback: T): T {
+  failedResults.add(fallback);
+  return fallback;
+}
+
+export function isFailed(result: unknown): boolean {
+  return typeof result === 'object' && result !== null && failedResults.has(result);
+}
+
+/**
+ * Pause and cancel controls for a single dataset generation run.
+ * Model calls go through `run`, which hands them an AbortSignal: pausing aborts
+ * the in-flight call and retries it on resume, cancelling aborts it for good.
+ */
+export class RunController {
+  private abortController = new AbortController();
+  private paused = false;
+  private cancelled = false;
+  private waiters: Array<() => void> = [];
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  pause(): void {
+    if (this.paused || this.cancelled) return;
+    this.paused = true;
+    this.abortController.abort();
+  }
+
+  resume(): void {
+    if (!this.paused || this.cancelled) return;
+    this.paused = false;
+    this.abortController = new AbortController();
+    this.releaseWaiters();
+  }
+
+  cancel(): void {
+    if (this.cancelled) return;
+    this.cancelled = true;
+    this.abortController.abort();
+    this.releaseWaiters();
+  }
+
+  async run<T>(task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    for (;;) {
+      await this.waitWhilePaused();
+      const { signal } = this.abortController;
+
+      try {
+        const result = await task(signal);
+        // A task may swallow the abort and return a partial result, so check again
+        if (!signal.aborted) return result;
+      } catch (error) {
+        if (!signal.aborted) throw error;
+      }
+
+      if (this.cancelled) throw new RunCancelledError();
+    }
+  }
+
+  /** Resolves once the run may continue; throws if it was cancelled. */
+  waitWhilePaused(): Promise<void> {
+    if (this.cancelled) return Promise.reject(new RunCancelledError());
+    if (!this.paused) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      this.waiters.push(() => (this.cancelled ? reject(new RunCancelledError()) : resolve()));
+    });
+  }
+
+  private releaseWaiters(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(release => release());
+  }
+}
@@ -0,0 +1,63 @@
+import type { QAPair, SafetyCategory, SafetyFlag } from '../types';
+import { ConversationService } from './conversationService';
+
+export class SafetyService {
+  private static readonly REGEX_RULE = /^\/(.+)\/([a-z]*)$/;
+
+  /** Flags every enabled category whose local rules match any message of the pair. */
+  public static screen(pair: QAPair, categories: SafetyCategory[]): SafetyFlag[] {
+    const text = this.pairText(pair);
+    return categories
+      .filter(category => category.enabled)
+      .flatMap(category => {
+        const matched = this.parseRules(category.rules)
+          .map(rule => text.match(rule)?.[0])
+          .find((match): match is string => match !== undefined);
+        return matched ? [{ category: category.id, detectedBy: 'rules' as const, reason: `Matched "${matched}"` }] : [];
+      });
+  }
+
+  /** All messages of a pair as one block of text, for rules and moderation prompts. */
+  public static pairText(pair: QAPair): string {
+    return ConversationService.toMessages(pair).map(message => `${message.role}: ${message.content}`).join('\n');
+  }
+
+  /** Returns the rule lines that cannot be compiled, so the editor can point them out. */
+  public static findInvalidRules(rules: string): string[] {
+    return this.ruleLines(rules).filter(line => this.compileRule(line) === null);
+  }
+
+  /** Merges flags for the same pair, keeping one flag per category and detector. */
+  public static mergeFlags(...flagLists: SafetyFlag[][]): SafetyFlag[] {
+    const merged = new Map<string, SafetyFlag>();
+    flagLists.flat().forEach(flag => {
+      const key = `${flag.category}:${flag.detectedBy}`;
+      if (!merged.has(key)) merged.set(key, flag);
+    });
+    return [...merged.values()];
+  }
+
+  private static parseRules(rules: string): RegExp[] {
+    return this.ruleLines(rules)
+      .map(line => this.compileRule(line))
+      .filter((rule): rule is RegExp => rule !== null);
+  }
+
+  private static ruleLines(rules: string): string[] {
+    return rules.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  }
+
+  // Plain lines are case-insensitive whole-word keywords; /.../flags lines are regular expressions
+  private static compileRule(line: string): RegExp | null {
+    const regexRule = line.match(this.REGEX_RULE);
+    try {
+      if (regexRule) {
+        return new RegExp(regexRule[1], regexRule[2].replace('g', ''));
+      }
+      const escaped = line.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+      return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu');
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { geminiService } from './geminiService';
+import { ChunkingService } from './chunkingService';
+import type { SearchBackendId, SearchPassage, ContentChunk } from '../types';
+
+export interface SearchBackend {
+  id: SearchBackendId;
+  search: (query: string, signal?: AbortSignal) => Promise<SearchPassage[]>;
+}
+
+export const SEARCH_BACKENDS: Array<{ id: SearchBackendId; name: string; description: string }> = [
+  {
+    id: 'gemini',
+    name: 'Gemini Google Search',
+    description: 'Grounded web search through the Gemini search tool',
+  },
+  {
+    id: 'local',
+    name: 'Local Sources',
+    description: 'Offline stand-in that searches the uploaded sources instead of the web',
+  },
+];
+
+class GeminiSearchBackend implements SearchBackend {
+  id: SearchBackendId = 'gemini';
+
+  search(query: string, signal?: AbortSignal): Promise<SearchPassage[]> {
+    return geminiService.searchWeb(query, signal);
+  }
+}
+
+class LocalSearchBackend implements SearchBackend {
+  id: SearchBackendId = 'local';
+
+  constructor(private chunks: ContentChunk[], private maxResults: number) {}
+
+  async search(query: string): Promise<SearchPassage[]> {
+    return ChunkingService.findRelevant(this.chunks, query)
+      .slice(0, this.maxResults)
+      .map(chunk => ({
+        uri: `source://${encodeURIComponent(chunk.sourceLabel)}#chunk-${chunk.index + 1}`,
+        title: `${chunk.sourceLabel} (part ${chunk.index + 1})`,
+        text: chunk.text,
+      }));
+  }
+}
+
+class SearchService {
+  createBackend(id: SearchBackendId, chunks: ContentChunk[], maxResults: number): SearchBackend {
+    switch (id) {
+      case 'local':
+        return new LocalSearchBackend(chunks, maxResults);
+      case 'gemini':
+      default:
+        return new GeminiSearchBackend();
+    }
+  }
+}
+
+export const searchService = new SearchService();
@@ -0,0 +1,197 @@
+import type {
+  QAPair,
+  ToolCallQAPair,
+  ToolDefinition,
+  ToolStep,
+  OpenAIToolMessage,
+  GenericToolMessage,
+} from '../types';
+import { MAX_TOOL_STEPS } from '../constants';
+
+// The subset of JSON schema that tool arguments are checked against
+interface ParameterSchema {
+  type?: string | string[];
+  properties?: Record<string, ParameterSchema>;
+  required?: string[];
+  enum?: unknown[];
+  items?: ParameterSchema;
+  additionalProperties?: boolean;
+}
+
+export class ToolService {
+  // Function names accepted by the common tool-calling APIs
+  private static readonly NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+  public static isToolPair(pair: QAPair): pair is ToolCallQAPair {
+    return Array.isArray((pair as ToolCallQAPair).toolSteps);
+  }
+
+  /** The first problem with a tool definition, or null when it can be offered to the model. */
+  public static checkTool(tool: ToolDefinition, tools: ToolDefinition[]): string | null {
+    if (!this.NAME_PATTERN.test(tool.name)) return 'Name must be 1-64 letters, digits, _ or -';
+    if (tools.some(other => other.id !== tool.id && other.enabled && other.name === tool.name)) return 'Another tool has this name';
+    if (tool.description.trim() === '') return 'Description is empty';
+    let schema: unknown;
+    try {
+      schema = JSON.parse(tool.parameters);
+    } catch (error) {
+      return `Parameters are not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`;
+    }
+    if (!schema || typeof schema !== 'object' || (schema as ParameterSchema).type !== 'object') {
+      return 'Parameters must be a JSON schema with "type": "object"';
+    }
+    return null;
+  }
+
+  /** Enabled tools whose definitions pass `checkTool`. */
+  public static usableTools(tools: ToolDefinition[]): ToolDefinition[] {
+    const enabled = tools.filter(tool => tool.enabled);
+    return enabled.filter(tool => !this.checkTool(tool, enabled));
+  }
+
+  public static parameters(tool: ToolDefinition): ParameterSchema {
+    return JSON.parse(tool.parameters);
+  }
+
+  /**
+   * Normalizes generated tool steps and checks every call against its tool's
+   * schema. Returns null when any call names an unknown tool, has invalid
+   * arguments or lacks a result, so the whole exchange can be dropped.
+   */
+  public static parseSteps(raw: unknown, tools: ToolDefinition[]): ToolStep[] | null {
+    if (raw === undefined || raw === null) return [];
+    if (!Array.isArray(raw) || raw.length > MAX_TOOL_STEPS) return null;
+
+    let callNumber = 0;
+    const steps: ToolStep[] = [];
+    for (const entry of raw) {
+      const calls = Array.isArray(entry?.calls) ? entry.calls : [];
+      const results = Array.isArray(entry?.results) ? entry.results : [];
+      if (calls.length === 0 || results.length !== calls.length) return null;
+
+      const step: ToolStep = { calls: [], results: [] };
+      for (let i = 0; i < calls.length; i++) {
+        const tool = tools.find(t => t.name === calls[i]?.name);
+        const args = this.parseArguments(calls[i]?.arguments);
+        if (!tool || !args || this.checkArguments(args, this.parameters(tool))) return null;
+
+        const id = `call_${++callNumber}`;
+        const result = results[i];
+        step.calls.push({ id, name: tool.name, arguments: args });
+        step.results.push({ callId: id, content: typeof result === 'string' ? result : JSON.stringify(result) });
+      }
+      steps.push(step);
+    }
+    return steps;
+  }
+
+  /** The first way `value` breaks `schema`, or null when it conforms. */
+  public static checkArguments(value: unknown, schema: ParameterSchema, path = 'arguments'): string | null {
+    if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+      return `${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`;
+    }
+    const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (types.length > 0 && !types.some(type => this.hasType(value, type))) {
+      return `${path} must be of type ${types.join(' or ')}`;
+    }
+
+    if (this.hasType(value, 'object')) {
+      const object = value as Record<string, unknown>;
+      const missing = (schema.required || []).find(name => object[name] === undefined);
+      if (missing) return `${path}.${missing} is required`;
+      for (const [name, propertyValue] of Object.entries(object)) {
+        const propertySchema = schema.properties?.[name];
+        if (!propertySchema) {
+          if (schema.additionalProperties === false) return `${path}.${name} is not a parameter`;
+          continue;
+        }
+        const problem = this.checkArguments(propertyValue, propertySchema, `${path}.${name}`);
+        if (problem) return problem;
+      }
+    }
+
+    if (Array.isArray(value) && schema.items) {
+      for (let i = 0; i < value.length; i++) {
+        const problem = this.checkArguments(value[i], schema.items, `${path}[${i}]`);
+        if (problem) return problem;
+      }
+    }
+    return null;
+  }
+
+  /** The calls and results that led to the answer, as a prompt line per call; empty for other pairs. */
+  public static describeSteps(pair: QAPair): string {
+    if (!this.isToolPair(pair) || pair.toolSteps.length === 0) return '';
+    const calls = pair.toolSteps.flatMap(step => step.calls.map((call, i) =>
+      `- ${call.name}(${JSON.stringify(call.arguments)}) returned: ${step.results[i].content}`
+    ));
+    return `Tool calls before the answer:\n${calls.join('\n')}\n`;
+  }
+
+  /** Tool definitions in the OpenAI `tools` request format. */
+  public static toOpenAITools(tools: ToolDefinition[]) {
+    return tools.map(tool => ({
+      type: 'function' as const,
+      function: { name: tool.name, description: tool.description, parameters: this.parameters(tool) },
+    }));
+  }
+
+  /** The exchange as OpenAI chat messages, with assistant tool calls and tool results. */
+  public static toOpenAIMessages(pair: ToolCallQAPair): OpenAIToolMessage[] {
+    return [
+      { role: 'user', content: pair.user },
+      ...pair.toolSteps.flatMap((step): OpenAIToolMessage[] => [
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: step.calls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+          })),
+        },
+        ...step.results.map((result): OpenAIToolMessage => ({ role: 'tool', tool_call_id: result.callId, content: result.content })),
+      ]),
+      { role: 'assistant', content: pair.model },
+    ];
+  }
+
+  /** The exchange with each call and result as a message of its own, for formats other than OpenAI's. */
+  public static toGenericMessages(pair: ToolCallQAPair): GenericToolMessage[] {
+    return [
+      { role: 'user', content: pair.user },
+      ...pair.toolSteps.flatMap(step => step.calls.flatMap((call, i): GenericToolMessage[] => [
+        { role: 'tool_call', id: call.id, name: call.name, arguments: call.arguments },
+        { role: 'tool_result', id: call.id, name: call.name, content: step.results[i].content },
+      ])),
+      { role: 'assistant', content: pair.model },
+    ];
+  }
+
+  /** Arguments as an object; models sometimes return them as a JSON string, as the OpenAI API does. */
+  private static parseArguments(raw: unknown): Record<string, unknown> | null {
+    if (raw === undefined) return {};
+    let value = raw;
+    if (typeof raw === 'string') {
+      try {
+        value = JSON.parse(raw);
+      } catch {
+        return null;
+      }
+    }
+    return this.hasType(value, 'object') ? value as Record<string, unknown> : null;
+  }
+
+  private static hasType(value: unknown, type: string): boolean {
+    switch (type) {
+      case 'string': return typeof value === 'string';
+      case 'number': return typeof value === 'number' && Number.isFinite(value);
+      case 'integer': return Number.isInteger(value);
+      case 'boolean': return typeof value === 'boolean';
+      case 'array': return Array.isArray(value);
+      case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+      case 'null': return value === null;
+      default: return true;
+    }
+  }
+}
@@ -134,8 +134,8 @@ export class UrlService {
     return text
       // Remove extra whitespace
       .replace(/\s+/g, ' ')
-      // Remove special characters but keep basic punctuation
-      .replace(/[^\w\s.,!?;:()\-"']/g, '')
+      // Remove special characters but keep letters and digits of every script and basic punctuation
+      .replace(/[^\p{L}\p{M}\p{N}\s.,!?;:()\-"'¿¡«»。、！？，；：「」،؛؟]/gu, '')
       // Remove multiple consecutive punctuation
       .replace(/[.,!?;:]{2,}/g, '.')
       // Trim and remove empty lines
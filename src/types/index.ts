@@ -1,12 +1,142 @@
 export interface QAPair {
+  id: string;
   user: string;
   model: string;
   isCorrect: boolean; // true for correct answers, false for incorrect
   confidence?: number; // confidence score for the answer quality
-  source?: 'original' | 'synthetic'; // Track if Q&A is original or synthetic
+  source?: 'original' | 'synthetic' | 'unanswerable'; // Track if Q&A is original, synthetic or a refusal
+  refusalKind?: RefusalKind; // Why an unanswerable pair's question cannot be answered from the sources
   validationStatus?: 'pending' | 'validated' | 'rejected' | 'failed';
   validationConfidence?: number; // Cross-validation confidence score
+  validation?: ValidationResult; // Latest cross-model validation verdict, combined across judges
+  judgeScores?: JudgeScore[]; // One entry per judge that returned a verdict
+  needsReview?: boolean; // Judges disagreed; a human should decide
+  original?: { user: string; model: string }; // Text as generated, kept once a pair is edited
+  edits?: PairEdit[]; // Oldest first
   knowledgeGap?: string; // Which knowledge gap this addresses
+  correctPairId?: string; // For incorrect answers, the id of the correct counterpart
+  groundingUris?: string[]; // Web sources that informed this pair
+  attribution?: SourceAttribution; // Source passage that supports the answer
+  faithfulness?: ValidationResult; // Answer checked against the attributed passage
+  safetyFlags?: SafetyFlag[]; // Set when safety screening flagged the pair
+  language?: string; // ISO 639-1 code of the pair's text
+  translationOf?: string; // For translated copies, the id of the pair they were translated from
+  parentPairId?: string; // For question variants, the id of the pair whose answer they share
+  variantType?: VariantType;
+  context?: ContextPassage[]; // Retrieved passages packed with the question in RAG mode, in prompt order
+  reasoning?: string; // Step-by-step rationale behind the final answer, kept apart from `model`
+  reasoningCheck?: ReasoningCheck; // Whether the rationale leads to the final answer
+  difficulty?: Difficulty;
+  theme?: string; // One of ProcessedData.identifiedThemes
+  questionType?: QuestionType;
+}
+
+export type RefusalKind = 'out-of-scope' | 'not-covered' | 'false-premise';
+
+export type VariantType = 'paraphrase' | 'typos' | 'casual' | 'shortened';
+
+export interface ReasoningCheck {
+  isConsistent: boolean;
+  issues: string[]; // Steps that contradict the answer or each other, empty when consistent
+}
+
+// How rationales appear in exported answers
+export type ReasoningFormat = 'inline' | 'tagged' | 'none';
+
+// A source chunk shown to the model as retrieved context
+export interface ContextPassage {
+  sourceId: string;
+  sourceLabel: string;
+  chunkIndex: number;
+  text: string;
+  isGold: boolean; // The chunk the answer is drawn from; the others are distractors
+}
+
+export type ContextOrder = 'shuffled' | 'gold-first' | 'gold-last';
+
+export type ContextPlacement = 'system' | 'user';
+
+export interface RagConfig {
+  enabled: boolean;
+  distractorCount: number; // Chunks from other sources packed with the gold chunk
+  order: ContextOrder;
+}
+
+export interface AugmentationConfig {
+  selectionRatio: number; // Share of correct pairs that get question variants
+  paraphrasesPerQuestion: number;
+  noisyVariants: Array<Exclude<VariantType, 'paraphrase'>>; // One variant of each style per selected question
+}
+
+export interface SafetyCategory {
+  id: string;
+  name: string;
+  description: string; // What the moderation model should look for
+  rules: string; // One keyword or /regex/flags per line, matched locally
+  enabled: boolean;
+  isCustom?: boolean;
+}
+
+export type SafetyAction = 'drop' | 'tag';
+
+export interface SafetyConfig {
+  categories: SafetyCategory[];
+  action: SafetyAction;
+  useModeration: boolean; // Also ask a model to screen every pair
+}
+
+export interface SafetyFlag {
+  category: string; // SafetyCategory.id
+  detectedBy: 'rules' | 'moderation';
+  reason: string;
+}
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export type QuestionType = 'factual' | 'reasoning' | 'procedural' | 'comparison' | 'definition';
+
+export interface PairClassification {
+  pairId: string;
+  difficulty: Difficulty;
+  theme?: string;
+  questionType: QuestionType;
+}
+
+export type ConversationIntent = 'opening' | 'follow-up' | 'clarification' | 'topic-shift';
+
+export interface ConversationTurn extends StandardFormatMessage {
+  intent?: ConversationIntent; // Only set on user turns
+}
+
+// A multi-turn dialogue; `user` and `model` hold its final exchange
+export interface ConversationQAPair extends QAPair {
+  turns: ConversationTurn[]; // Full history, alternating user/assistant and ending with `model`
+}
+
+// A function the assistant can call, as defined in the tool schema editor
+export interface ToolDefinition {
+  id: string;
+  name: string; // Function name the model calls: letters, digits, _ and -
+  description: string;
+  parameters: string; // JSON schema of the arguments, kept as text while it is edited
+  enabled: boolean;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// One round of calls the assistant makes before it answers, with their simulated results
+export interface ToolStep {
+  calls: ToolCall[];
+  results: Array<{ callId: string; content: string }>; // One per call, in the same order
+}
+
+// A tool-use exchange; `user` holds the request and `model` the answer given after the tool steps
+export interface ToolCallQAPair extends QAPair {
+  toolSteps: ToolStep[]; // Empty when the request is answered without a tool
 }
 
 export interface KnowledgeGap {
@@ -25,12 +155,247 @@ export interface SyntheticQAPair extends Omit<QAPair, 'source'> {
 }
 
 export interface ValidationResult {
+  pairId?: string;
   isValid: boolean;
   confidence: number;
   reasoning: string;
   suggestedCorrection?: string;
   factualAccuracy: number;
   relevanceScore: number;
+  unsupportedClaims?: string[]; // Claims in the answer that the source passage does not back up
+}
+
+export interface PairEdit {
+  stage: PipelineStageId;
+  field: 'user' | 'model';
+  before: string;
+  after: string;
+  reason: string;
+  editedAt: number;
+}
+
+export interface JudgeConfig {
+  model: string; // OpenRouter model id
+  weight: number; // Relative influence under weighted consensus
+}
+
+export type ConsensusMethod = 'majority' | 'weighted';
+
+export interface JudgeScore {
+  model: string;
+  isValid: boolean;
+  confidence: number;
+  reasoning: string;
+}
+
+export interface SourceContent {
+  id: string; // FileData.id or UrlData.id
+  type: 'file' | 'url';
+  name?: string;
+  url?: string;
+  content: string;
+  language?: string; // Detected ISO 639-1 code, 'und' when undetermined
+}
+
+export interface SourceAttribution {
+  sourceId: string; // FileData.id or UrlData.id
+  sourceLabel: string;
+  chunkIndex: number;
+  start: number; // Character span of the supporting passage in the source content
+  end: number;
+}
+
+export interface ContentChunk {
+  sourceId: string;
+  sourceLabel: string; // File name or URL, for prompts and display
+  index: number; // Position of the chunk within its source
+  text: string;
+  start: number; // Character offset of the chunk in the source content
+  end: number;
+  language?: string; // Language of the source the chunk came from
+}
+
+export type PipelineStageId =
+  | 'themes'
+  | 'research'
+  | 'generation'
+  | 'synthesis'
+  | 'validation'
+  | 'repair'
+  | 'faithfulness'
+  | 'unanswerable'
+  | 'deduplication'
+  | 'classification'
+  | 'augmentation'
+  | 'translation'
+  | 'reasoning'
+  | 'negatives'
+  | 'safety'
+  | 'context'
+  | 'compile';
+
+export interface PipelineStageConfig {
+  key: string; // Unique per entry, so the same stage can run more than once
+  stageId: PipelineStageId;
+  enabled: boolean;
+}
+
+export type PiiCategory = 'email' | 'phone' | 'name' | 'account' | 'secret' | 'address' | 'ip' | 'other';
+
+export type RedactionMode = 'placeholder' | 'pseudonym';
+
+export interface PiiDetector {
+  id: string;
+  name: string;
+  category: PiiCategory;
+  kind: 'regex' | 'dictionary';
+  pattern: string; // Regex source, or one dictionary term per line
+  checksum?: 'luhn'; // Regex matches must also pass this check digit test
+  enabled: boolean;
+  isCustom?: boolean;
+}
+
+export interface RedactionConfig {
+  enabled: boolean;
+  mode: RedactionMode;
+  detectors: PiiDetector[];
+}
+
+export interface RedactionEntry {
+  category: PiiCategory;
+  detectorId: string;
+  original: string;
+  replacement: string;
+  count: number;
+  sourceIds: string[];
+}
+
+export interface RedactionReport {
+  mode: RedactionMode;
+  totalMatches: number;
+  entries: RedactionEntry[];
+  invalidDetectors: string[]; // Names of detectors whose pattern failed to compile
+}
+
+export interface LanguageConfig {
+  generation: 'source' | 'targets'; // Write pairs in each chunk's own language or in the target languages
+  targets: string[]; // ISO 639-1 codes, used in turn across generation batches
+  translations: string[]; // Languages every pair also gets a translated copy in
+}
+
+export interface ExportOptions {
+  languages: string[]; // Only export pairs in these languages; empty exports all
+  balanceLanguages: boolean; // Cap every language at the count of the smallest one
+  testSplit: number; // Share of pair families written to a separate test file; 0 for no split
+  contextPlacement: ContextPlacement; // Message that carries the retrieved passages in RAG exports
+  reasoningFormat: ReasoningFormat;
+  includeRejected: boolean; // Also export pairs that failed validation or could not be validated
+}
+
+export type GenerationMode = 'qa' | 'conversation' | 'tools';
+
+export interface GenerationOptions {
+  mode: GenerationMode;
+  conversationTurns: number; // Maximum user turns per conversation
+  reasoning: boolean; // Write a step-by-step rationale for every correct answer
+  tools: ToolDefinition[]; // Tools offered to the assistant in tool-calling mode
+  incorrectAnswerRatio: number; // Share of correct pairs that get a linked incorrect answer
+  unanswerableRatio: number; // Share of correct pairs that are refusals to unanswerable questions
+  researchBackend: SearchBackendId;
+  dedupThreshold: number;
+  faithfulnessThreshold: number; // Pairs whose factual accuracy falls below this are rejected
+  judges: JudgeConfig[];
+  consensusMethod: ConsensusMethod;
+  redaction: RedactionConfig;
+  safety: SafetyConfig;
+  languages: LanguageConfig;
+  augmentation: AugmentationConfig;
+  rag: RagConfig;
+  pipeline: PipelineStageConfig[];
+}
+
+export interface PipelineStageTiming {
+  key: string;
+  name: string;
+  status: 'pending' | 'running' | 'done' | 'restored'; // 'restored' stages came from a checkpoint
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+// Artifacts passed between pipeline stages; each stage declares which ones it reads and writes
+export interface PipelineState {
+  sources: SourceContent[];
+  chunks: ContentChunk[];
+  themes?: string[];
+  researchPassages?: ResearchPassage[];
+  groundingMetadata?: GroundingMetadata;
+  pairs?: QAPair[];
+  identifiedGaps?: KnowledgeGap[];
+  duplicateClusters?: DuplicateCluster[];
+  unsafePairs?: QAPair[]; // Pairs removed by safety screening
+  processedData?: ProcessedData;
+}
+
+export interface RunCheckpoint {
+  runKey: string;
+  sourceLabels: string[];
+  goal: FineTuningGoalConfig; // Goal and options the run key was derived from, restored to resume the run
+  options: GenerationOptions;
+  createdAt: number;
+  updatedAt: number;
+  stages: Record<string, unknown>; // Results of finished stages, keyed by stage name
+  batches: Record<string, unknown>; // Results of finished batches inside a running stage
+}
+
+export type PromptTemplateId =
+  | 'themes'
+  | 'qaGeneration'
+  | 'conversationGeneration'
+  | 'researchQueries'
+  | 'webSearch'
+  | 'knowledgeGaps'
+  | 'syntheticGeneration'
+  | 'classification'
+  | 'incorrectAnswers'
+  | 'validation'
+  | 'faithfulness'
+  | 'moderation'
+  | 'translation'
+  | 'questionVariants'
+  | 'unanswerable'
+  | 'reasoning'
+  | 'reasoningCheck'
+  | 'toolConversation';
+
+export interface PromptVariable {
+  name: string; // Used as {{name}} in the template body
+  type: 'text' | 'number' | 'list'; // Lists render as numbered lines
+  description: string;
+  sample: string | number | string[]; // Shown in the editor preview
+}
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  name: string;
+  description: string;
+  version: number;
+  variables: PromptVariable[];
+  body: string;
+  isCustom?: boolean; // Edited by the user rather than the shipped default
+}
+
+export interface PromptTemplateVersion {
+  id: PromptTemplateId;
+  name: string;
+  version: number;
+  isCustom: boolean;
+}
+
+export interface DuplicateCluster {
+  id: string;
+  keptPairId: string;
+  pairs: QAPair[]; // Every member, including the kept pair
+  similarity: number; // Average estimated similarity between matched members
 }
 
 export interface FileData {
@@ -58,6 +423,18 @@ export interface WebSearchResult {
   title: string;
 }
 
+export interface SearchPassage extends WebSearchResult {
+  text: string;
+}
+
+export interface ResearchPassage extends SearchPassage {
+  id: string;
+  theme: string;
+  query: string;
+}
+
+export type SearchBackendId = 'gemini' | 'local';
+
 export interface GroundingChunk {
   web?: WebSearchResult;
 }
@@ -78,13 +455,25 @@ export interface ProcessedData {
   correctAnswerCount: number;
   incorrectAnswerCount: number;
   syntheticPairCount?: number;
+  unanswerablePairCount?: number;
+  reasoningPairCount?: number; // Pairs with a rationale that passed the consistency check
+  tools?: ToolDefinition[]; // Enabled tools of a tool-calling run, for the tool exports
   validatedPairCount?: number;
+  failedValidationCount?: number; // Pairs the validator could not judge
+  reviewPairCount?: number; // Pairs the judges disagreed on
+  repairedPairCount?: number;
+  flaggedPairCount?: number; // Pairs kept with safety flags
+  droppedUnsafePairCount?: number;
+  unsafePairs?: QAPair[]; // Pairs dropped by safety screening, kept for review; never exported
+  redactionReport?: RedactionReport; // Maps replacements back to the original values; never exported
   identifiedGaps?: KnowledgeGap[];
   gapFillingEnabled?: boolean;
+  duplicateClusters?: DuplicateCluster[];
+  promptTemplateVersions?: PromptTemplateVersion[];
 }
 
 export interface StandardFormatMessage {
-  role: 'assistant' | 'user';
+  role: 'system' | 'assistant' | 'user';
   content: string;
 }
 
@@ -98,9 +487,35 @@ export interface StandardFormatQAPair {
     is_correct: boolean;
     confidence?: number;
     theme?: string;
+    difficulty?: Difficulty;
+    question_type?: QuestionType;
+    language?: string;
   };
 }
 
+// Chat message in the OpenAI tools format
+export interface OpenAIToolMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null; // Null on assistant messages that only call tools
+  tool_calls?: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+  tool_call_id?: string;
+}
+
+// Message in the generic tool format, with calls and results as messages of their own
+export type GenericToolMessage =
+  | { role: 'user' | 'assistant'; content: string }
+  | { role: 'tool_call'; id: string; name: string; arguments: Record<string, unknown> }
+  | { role: 'tool_result'; id: string; name: string; content: string };
+
+// Alpaca-style instruction record, used by the RAG exports
+export interface InstructionFormatRecord {
+  system?: string;
+  instruction: string;
+  input: string;
+  output: string;
+  history?: Array<[string, string]>; // Earlier exchanges of a conversation
+}
+
 export type TextMimeType = 
   | 'text/plain'
   | 'text/markdown'
@@ -130,15 +545,13 @@ export interface FineTuningConfig {
   defaultFormat: string;
 }
 
-export type FineTuningGoal = 
-  | 'topic'
-  | 'knowledge'
-  | 'style';
-
 export interface FineTuningGoalConfig {
-  id: FineTuningGoal;
+  id: string; // 'topic', 'knowledge' or 'style' for built-in goals, a UUID for custom ones
   name: string;
   description: string;
   icon: string;
   promptFocus: string;
+  questionTypeMix: Partial<Record<QuestionType, number>>; // Relative weights, not percentages
+  answerStyle: string;
+  isCustom?: boolean;
 }
\ No newline at end of file